@@ -0,0 +1,11 @@
+import React from "@rbxts/react";
+import ReactRoblox from "@rbxts/react-roblox";
+import HudAllocationBenchmark from "./hud-allocations.benchmark";
+
+export = {
+    react: React,
+    reactRoblox: ReactRoblox,
+    story: () => {
+        return <HudAllocationBenchmark />;
+    },
+};
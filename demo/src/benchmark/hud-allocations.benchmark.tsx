@@ -0,0 +1,174 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from "@rbxts/react";
+
+const RunService = game.GetService("RunService");
+
+/**
+ * HUD Allocation Benchmark: updates a small HUD every frame and reports how much memory each update allocates
+ */
+
+interface HudProps {
+    health: number;
+    ammo: number;
+    frame: number;
+}
+
+// @undecillion
+// Traditional component - no optimization
+function UnoptimizedHud({ health, ammo, frame }: HudProps) {
+    return (
+        <frame Size={new UDim2(0, 300, 0, 90)} BackgroundColor3={Color3.fromRGB(30, 30, 30)}>
+            <textlabel
+                Text={`Health: ${health}`}
+                TextColor3={health > 30 ? Color3.fromRGB(255, 255, 255) : Color3.fromRGB(255, 80, 80)}
+                Size={new UDim2(1, 0, 0, 30)}
+                BackgroundTransparency={1}
+            />
+            <textlabel
+                Text={`Ammo: ${ammo}`}
+                Position={new UDim2(0, 0, 0, 30)}
+                Size={new UDim2(1, 0, 0, 30)}
+                BackgroundTransparency={1}
+            />
+            <textlabel
+                Text={`Frame: ${frame}`}
+                Position={new UDim2(0, 0, 0, 60)}
+                Size={new UDim2(1, 0, 0, 30)}
+                BackgroundTransparency={1}
+            />
+        </frame>
+    );
+}
+
+// Optimized components - each label is its own block, patched from value getters without re-rendering
+function HealthLabel({ health }: { health: number }) {
+    return (
+        <textlabel
+            Text={`Health: ${health}`}
+            TextColor3={health > 30 ? Color3.fromRGB(255, 255, 255) : Color3.fromRGB(255, 80, 80)}
+            Size={new UDim2(1, 0, 0, 30)}
+            BackgroundTransparency={1}
+        />
+    );
+}
+
+function AmmoLabel({ ammo }: { ammo: number }) {
+    return (
+        <textlabel
+            Text={`Ammo: ${ammo}`}
+            Position={new UDim2(0, 0, 0, 30)}
+            Size={new UDim2(1, 0, 0, 30)}
+            BackgroundTransparency={1}
+        />
+    );
+}
+
+function FrameLabel({ frame }: { frame: number }) {
+    return (
+        <textlabel
+            Text={`Frame: ${frame}`}
+            Position={new UDim2(0, 0, 0, 60)}
+            Size={new UDim2(1, 0, 0, 30)}
+            BackgroundTransparency={1}
+        />
+    );
+}
+
+function OptimizedHud({ health, ammo, frame }: HudProps) {
+    return (
+        <frame Size={new UDim2(0, 300, 0, 90)} BackgroundColor3={Color3.fromRGB(30, 30, 30)}>
+            <HealthLabel health={health} />
+            <AmmoLabel ammo={ammo} />
+            <FrameLabel frame={frame} />
+        </frame>
+    );
+}
+
+interface AllocationStats {
+    updates: number;
+    totalKb: number;
+    skipped: number;
+}
+
+export default function HudAllocationBenchmark() {
+    const [useOptimized, setUseOptimized] = useState(true);
+    const [running, setRunning] = useState(false);
+    const [frame, setFrame] = useState(0);
+    const [report, setReport] = useState("Press Start to update the HUD every frame");
+
+    const memoryBeforeUpdate = useRef<number>();
+    const stats = useRef<AllocationStats>({ updates: 0, totalKb: 0, skipped: 0 });
+
+    useEffect(() => {
+        if (!running) return;
+
+        stats.current = { updates: 0, totalKb: 0, skipped: 0 };
+        const connection = RunService.Heartbeat.Connect(() => {
+            memoryBeforeUpdate.current = gcinfo();
+            setFrame((current) => current + 1);
+        });
+
+        return () => connection.Disconnect();
+    }, [running, useOptimized]);
+
+    // Runs after every child block has patched its Instances for this commit
+    useLayoutEffect(() => {
+        const before = memoryBeforeUpdate.current;
+        if (before === undefined) return;
+        memoryBeforeUpdate.current = undefined;
+
+        const delta = gcinfo() - before;
+        const current = stats.current;
+        if (delta < 0) {
+            // A garbage collection step ran during the update, so this sample says nothing about allocations
+            current.skipped++;
+        } else {
+            current.updates++;
+            current.totalKb += delta;
+        }
+
+        if (current.updates > 0 && current.updates % 60 === 0) {
+            const bytesPerUpdate = (current.totalKb * 1024) / current.updates;
+            const mode = useOptimized ? "Optimized" : "Unoptimized";
+            const summary = `${mode}: ${string.format("%.0f", bytesPerUpdate)} bytes/update over ${current.updates} updates`;
+            print(`${summary} (${current.skipped} samples skipped for GC)`);
+            setReport(summary);
+        }
+    }, [frame]);
+
+    const health = 100 - (frame % 100);
+    const ammo = 30 - (math.floor(frame / 10) % 31);
+    const Hud = useOptimized ? OptimizedHud : UnoptimizedHud;
+
+    return (
+        <frame Size={new UDim2(1, 0, 1, 0)} BackgroundColor3={Color3.fromRGB(20, 20, 20)}>
+            <textlabel
+                Text={report}
+                Size={new UDim2(1, 0, 0, 25)}
+                TextColor3={Color3.fromRGB(255, 255, 255)}
+                BackgroundTransparency={1}
+            />
+
+            <textbutton
+                Text={useOptimized ? "Optimized (Decillion)" : "Unoptimized (Plain React)"}
+                Size={new UDim2(0.3, 0, 0, 25)}
+                Position={new UDim2(0, 0, 0, 30)}
+                BackgroundColor3={useOptimized ? Color3.fromRGB(0, 150, 0) : Color3.fromRGB(150, 0, 0)}
+                TextColor3={Color3.fromRGB(255, 255, 255)}
+                Event={{ MouseButton1Click: () => setUseOptimized(!useOptimized) }}
+            />
+
+            <textbutton
+                Text={running ? "Stop" : "Start"}
+                Size={new UDim2(0.3, 0, 0, 25)}
+                Position={new UDim2(0.35, 0, 0, 30)}
+                BackgroundColor3={Color3.fromRGB(100, 100, 150)}
+                TextColor3={Color3.fromRGB(255, 255, 255)}
+                Event={{ MouseButton1Click: () => setRunning(!running) }}
+            />
+
+            <frame Position={new UDim2(0, 0, 0, 70)} Size={new UDim2(0, 300, 0, 90)} BackgroundTransparency={1}>
+                <Hud health={health} ammo={ammo} frame={frame} />
+            </frame>
+        </frame>
+    );
+}
@@ -14,8 +14,7 @@ interface ListItemProps {
     layoutOrder?: number;
 }
 
-// Traditional React approach (for comparison) - skipped by @undecillion
-// @undecillion
+// Traditional approach (for comparison) - every row is its own component
 function TraditionalListItem({ id, name, value, isActive, layoutOrder }: ListItemProps) {
     return (
         <frame
@@ -40,32 +39,6 @@ function TraditionalListItem({ id, name, value, isActive, layoutOrder }: ListIte
     );
 }
 
-// Optimized Decillion approach
-function OptimizedListItem({ id, name, value, isActive, layoutOrder }: ListItemProps) {
-    return (
-        <frame
-            Size={new UDim2(1, 0, 0, 40)}
-            BackgroundColor3={isActive ? Color3.fromRGB(100, 150, 100) : Color3.fromRGB(80, 80, 80)}
-            LayoutOrder={layoutOrder}
-        >
-            {/* Static structure should be completely optimized */}
-            <textlabel
-                Text={`${name}: ${value}`}
-                Size={new UDim2(0.8, 0, 1, 0)}
-                TextColor3={Color3.fromRGB(255, 255, 255)}
-                BackgroundTransparency={1}
-            />
-            <textlabel
-                Text={`#${id}`}
-                Size={new UDim2(0.2, 0, 1, 0)}
-                Position={new UDim2(0.8, 0, 0, 0)}
-                TextColor3={Color3.fromRGB(200, 200, 200)}
-                BackgroundTransparency={1}
-            />
-        </frame>
-    );
-}
-
 export default function MassiveListBenchmark() {
     const [itemCount, setItemCount] = useState(1000);
     const [useOptimized, setUseOptimized] = useState(true);
@@ -98,12 +71,15 @@ export default function MassiveListBenchmark() {
         });
     };
 
-    const ListComponent = useOptimized ? OptimizedListItem : TraditionalListItem;
     const virtualList = useVirtualList<ListItemProps>({ items, itemHeight: ITEM_HEIGHT, overscan: 6 });
 
     const baseLayoutOrder = virtualList.range.start * 2;
     const visibleCount = virtualList.visibleItems.size();
 
+    // Only one of these is non-empty, so the list block and the component rows can be compared side by side
+    const optimizedItems: typeof virtualList.visibleItems = useOptimized ? virtualList.visibleItems : [];
+    const traditionalItems: typeof virtualList.visibleItems = useOptimized ? [] : virtualList.visibleItems;
+
     return (
         <frame Size={new UDim2(1, 0, 1, 0)} BackgroundColor3={Color3.fromRGB(20, 20, 20)}>
             {/* Benchmark Controls */}
@@ -172,10 +148,39 @@ export default function MassiveListBenchmark() {
                     BackgroundTransparency={1}
                 />
 
-                {virtualList.visibleItems.map((virtualItem: typeof virtualList.visibleItems[number], visibleIndex: number) => {
+                {/* Optimized Decillion approach - the row compiles into a keyed list block */}
+                {optimizedItems.map((virtualItem, visibleIndex) => {
+                    const { item } = virtualItem;
+                    return (
+                        <frame
+                            key={`item-${item.id}`}
+                            Size={new UDim2(1, 0, 0, 40)}
+                            BackgroundColor3={
+                                item.isActive ? Color3.fromRGB(100, 150, 100) : Color3.fromRGB(80, 80, 80)
+                            }
+                            LayoutOrder={baseLayoutOrder + visibleIndex * 2 + 1}
+                        >
+                            <textlabel
+                                Text={`${item.name}: ${item.value}`}
+                                Size={new UDim2(0.8, 0, 1, 0)}
+                                TextColor3={Color3.fromRGB(255, 255, 255)}
+                                BackgroundTransparency={1}
+                            />
+                            <textlabel
+                                Text={`#${item.id}`}
+                                Size={new UDim2(0.2, 0, 1, 0)}
+                                Position={new UDim2(0.8, 0, 0, 0)}
+                                TextColor3={Color3.fromRGB(200, 200, 200)}
+                                BackgroundTransparency={1}
+                            />
+                        </frame>
+                    );
+                })}
+
+                {traditionalItems.map((virtualItem, visibleIndex) => {
                     const { item } = virtualItem;
                     return (
-                        <ListComponent
+                        <TraditionalListItem
                             key={`item-${item.id}`}
                             {...item}
                             layoutOrder={baseLayoutOrder + visibleIndex * 2 + 1}
@@ -192,31 +197,3 @@ export default function MassiveListBenchmark() {
         </frame>
     );
 }
-
-// Alternative ways to use @undecillion
-
-// Comment-style for arrow functions
-// @undecillion - Skip transformation for this component
-const SkippedArrowComponent = ({ text }: { text: string }) => {
-    return (
-        <textlabel
-            Text={text}
-            Size={new UDim2(1, 0, 0, 30)}
-            BackgroundTransparency={1}
-            TextColor3={Color3.fromRGB(255, 255, 255)}
-        />
-    );
-};
-
-// JSDoc-style documentation
-/**
- * @undecillion
- * This component will not be optimized by Decillion
- */
-function DocumentedSkippedComponent() {
-    return (
-        <frame Size={new UDim2(1, 0, 0, 50)}>
-            <textlabel Text="This won't be optimized" />
-        </frame>
-    );
-}
\ No newline at end of file
@@ -0,0 +1,65 @@
+import React, { useEffect, useState } from "@rbxts/react";
+import ReactRoblox from "@rbxts/react-roblox";
+
+function Counter({ label }: { label: string }) {
+    const [count, setCount] = useState(0);
+
+    useEffect(() => {
+        const thread = task.spawn(() => {
+            while (true) {
+                task.wait(0.25);
+                setCount((current) => current + 1);
+            }
+        });
+        return () => task.cancel(thread);
+    }, []);
+
+    return (
+        <textlabel
+            Text={`${label}: ${count}`}
+            Size={new UDim2(1, 0, 0, 40)}
+            BackgroundTransparency={1}
+            TextColor3={Color3.fromRGB(255, 255, 255)}
+        />
+    );
+}
+
+/**
+ * Switches between branches with a button.
+ * The counters are destroyed when switched away, so each one restarts from zero when it comes back.
+ * The text boxes are kept mounted and hidden, so whatever was typed into them is still there.
+ */
+function ConditionalCheck() {
+    const [showFirst, setShowFirst] = useState(true);
+
+    return (
+        <frame Size={new UDim2(0, 300, 0, 200)} BackgroundColor3={Color3.fromRGB(30, 30, 30)}>
+            <uilistlayout SortOrder={Enum.SortOrder.LayoutOrder} />
+            <textbutton
+                Text={showFirst ? "Showing A" : "Showing B"}
+                Size={new UDim2(1, 0, 0, 40)}
+                Event={{ MouseButton1Click: () => setShowFirst(!showFirst) }}
+            />
+            {showFirst ? <Counter label="Counter A" /> : <Counter label="Counter B" />}
+            {/* @decillion-keep */ showFirst ? (
+                <textbox PlaceholderText="Type into A" Text="" Size={new UDim2(1, 0, 0, 40)} />
+            ) : (
+                <textbox PlaceholderText="Type into B" Text="" Size={new UDim2(1, 0, 0, 40)} />
+            )}
+            {showFirst && (
+                <textlabel
+                    Text="Only while A is shown"
+                    Size={new UDim2(1, 0, 0, 40)}
+                    BackgroundTransparency={1}
+                    TextColor3={Color3.fromRGB(200, 200, 200)}
+                />
+            )}
+        </frame>
+    );
+}
+
+export = {
+    react: React,
+    reactRoblox: ReactRoblox,
+    story: () => <ConditionalCheck />,
+};
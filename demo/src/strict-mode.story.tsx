@@ -0,0 +1,73 @@
+import React, { StrictMode, useEffect, useRef, useState } from "@rbxts/react";
+import ReactRoblox from "@rbxts/react-roblox";
+
+function Ticker({ label, count }: { label: string; count: number }) {
+    return (
+        <textlabel
+            Name="Ticker"
+            Text={`${label}: ${count}`}
+            LayoutOrder={count}
+            Size={new UDim2(1, 0, 0, 40)}
+            BackgroundTransparency={1}
+            TextColor3={Color3.fromRGB(255, 255, 255)}
+        />
+    );
+}
+
+/**
+ * Renders a patched block under StrictMode, which renders every component twice, and checks after each commit
+ * that the mounted TextLabel shows the committed count rather than a value from a discarded render
+ */
+function StrictModeCheck() {
+    const [count, setCount] = useState(0);
+    const [verdict, setVerdict] = useState("Waiting for first tick");
+    const containerRef = useRef<Frame>();
+
+    useEffect(() => {
+        const thread = task.spawn(() => {
+            while (true) {
+                task.wait(0.5);
+                setCount((current) => current + 1);
+            }
+        });
+        return () => task.cancel(thread);
+    }, []);
+
+    useEffect(() => {
+        const ticker = containerRef.current?.FindFirstChild("Ticker") as TextLabel | undefined;
+        if (ticker === undefined) return;
+
+        const expected = `Ticks: ${count}`;
+        setVerdict(
+            ticker.Text === expected
+                ? `In sync at ${count}`
+                : `Out of sync: saw "${ticker.Text}", expected "${expected}"`,
+        );
+    }, [count]);
+
+    return (
+        <frame ref={containerRef} Size={new UDim2(0, 300, 0, 100)} BackgroundColor3={Color3.fromRGB(30, 30, 30)}>
+            <uilistlayout SortOrder={Enum.SortOrder.Name} />
+            <Ticker label="Ticks" count={count} />
+            <textlabel
+                Name="Verdict"
+                Text={verdict}
+                Size={new UDim2(1, 0, 0, 40)}
+                BackgroundTransparency={1}
+                TextColor3={Color3.fromRGB(200, 200, 200)}
+            />
+        </frame>
+    );
+}
+
+export = {
+    react: React,
+    reactRoblox: ReactRoblox,
+    story: () => {
+        return (
+            <StrictMode>
+                <StrictModeCheck />
+            </StrictMode>
+        );
+    },
+};
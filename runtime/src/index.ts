@@ -44,14 +44,14 @@
  * For large trees or frequent updates, blocks can be 10-100x faster!
  */
 
-import React, { ReactElement, ReactNode, useRef, useEffect, useState } from "@rbxts/react";
-
-// We could use @rbxts/services too but this is fine for now
-const HttpService = game.GetService("HttpService");
+import React, { ReactElement, ReactNode, useRef, useEffect, useLayoutEffect, useState } from "@rbxts/react";
 
 // https://github.com/jsdotlua/react-lua/blob/main/modules/shared/src/ReactSymbols.luau
 const REACT_ELEMENT_TYPE = 0xeac7;
 
+// Enables development-only assertions, following the React Lua convention
+const DEV = (_G as { __DEV__?: boolean }).__DEV__ === true;
+
 const STATIC_INSTANCE_KEY = "__decillionCreateInstance" as const;
 const STATIC_TEMPLATE_KEY = "__decillionInstanceTemplate" as const;
 
@@ -68,20 +68,26 @@ export const enum EditType {
     Child = 2,
     Event = 4,
     Style = 8,
+    Spread = 16, // `{...bag}`: `value` returns the prop bag, whose keys are diffed against the previous bag
 }
 
-export interface PropEdit {
+export interface PropEdit<T extends unknown[] = unknown[]> {
     type: EditType;
     propName: string;
-    dependencyKey: string;
+    dependencyKeys: string[];
+    dependencyIndices: number[]; // Positions of dependencyKeys in the block's dependencies array, resolved at compile time
     path?: number[];
+    value?: (...deps: T) => unknown; // Hole: computes the prop's new value straight from the dependencies
+    hole?: number; // List rows: index of the row value that holds this prop's value
 }
 
-export interface ChildEdit {
+export interface ChildEdit<T extends unknown[] = unknown[]> {
     type: EditType.Child;
     index: number;
-    dependencyKey: string;
+    dependencyKeys: string[];
+    dependencyIndices: number[];
     path?: number[];
+    value?: (...deps: T) => ReactNode;
 }
 
 interface ChildRegionState {
@@ -106,9 +112,9 @@ interface EventConnectionRecord {
 
 const elementBlockMap = new WeakMap<ReactElement, Block>();
 
-export interface PatchInstruction {
+export interface PatchInstruction<T extends unknown[] = unknown[]> {
     elementPath: number[];
-    edits: (PropEdit | ChildEdit)[];
+    edits: (PropEdit<T> | ChildEdit<T>)[];
 }
 
 export interface FinePatchBlockInstance {
@@ -133,9 +139,10 @@ export abstract class AbstractBlock {
     /** cached elements by path */ c?: Map<string, Instance>;
     /** shouldUpdate function */ _u?: ((oldProps: unknown[], newProps: unknown[]) => boolean) | undefined;
     /** parent instance */ _t?: Instance | undefined;
+    /** whether every edit computes its value through a hole */ _h?: boolean;
 
-    /** patch - apply updates to the block */
-    abstract p(newBlock: AbstractBlock): Instance | undefined;
+    /** patch - apply updates to the block from new props, and the new root element when one was rendered */
+    abstract p(newProps: unknown[], newRoot?: ReactElement): Instance | undefined;
 
     /** mount - create and insert the block into the tree */
     abstract m(parent?: Instance, refNode?: Instance | undefined): Instance;
@@ -153,10 +160,83 @@ export abstract class AbstractBlock {
     abstract t(): Instance | undefined;
 }
 
-// Block instance cache
-const blockCache = new Map<string, BlockInstance>();
-const finePatchBlockCache = new Map<string, Block>();
-const dependencyCache = new Map<string, unknown[]>();
+// Bumped by clearBlockCache so every memoized block re-renders on its next render
+let memoGeneration = 0;
+// Counter used to give each createBlock definition its own ID
+let nextCreatedBlockId = 0;
+
+/**
+ * Opt-in control over when a block treats its dependencies as changed
+ */
+export interface BlockUpdateOptions {
+    /** Custom comparator that returns true when the block should update */
+    shouldUpdate?: (oldProps: unknown[], newProps: unknown[]) => boolean;
+    /** Compare plain table dependencies key by key (one level deep) instead of by reference */
+    structural?: boolean;
+    /** The root element's React key; a new key mounts a new block, as React mounts a new element */
+    key?: string | number;
+}
+
+/**
+ * A mounted block as seen by the live registry
+ * Several records can share a block ID (e.g. one per list row), but each mount has its own record
+ */
+export interface LiveBlockRecord {
+    /** compile-time block ID */
+    id: string;
+    /** unique identity of this mount */
+    mount: number;
+    /** the Block of a fine-patch block; undefined for memoized blocks */
+    block?: Block;
+    /** commits where dependencies were unchanged and the block did no work */
+    hits: number;
+    /** commits where the block patched or re-rendered */
+    updates: number;
+    /** total seconds spent patching or re-rendering */
+    updateTime: number;
+}
+
+// Live blocks grouped by compile-time block ID, registered on mount and removed on unmount
+const liveBlocks = new Map<string, Set<LiveBlockRecord>>();
+let nextMountId = 0;
+
+function registerLiveBlock(id: string, block?: Block): LiveBlockRecord {
+    const record: LiveBlockRecord = { id, mount: nextMountId++, block, hits: 0, updates: 0, updateTime: 0 };
+
+    let records = liveBlocks.get(id);
+    if (records === undefined) {
+        records = new Set<LiveBlockRecord>();
+        liveBlocks.set(id, records);
+    }
+    records.add(record);
+    return record;
+}
+
+function unregisterLiveBlock(record: LiveBlockRecord): void {
+    const records = liveBlocks.get(record.id);
+    if (records === undefined) return;
+
+    records.delete(record);
+    if (records.size() === 0) {
+        liveBlocks.delete(record.id);
+    }
+}
+
+/**
+ * Gets every mounted fine-patch block created from the given compile-time block ID
+ */
+export function getLiveBlocks(blockId: string): Block[] {
+    const blocks: Block[] = [];
+    const records = liveBlocks.get(blockId);
+    if (records === undefined) return blocks;
+
+    for (const record of records) {
+        if (record.block !== undefined) {
+            blocks.push(record.block);
+        }
+    }
+    return blocks;
+}
 const instanceBlockMap = new WeakMap<Instance, Block>();
 
 function createRobloxInstance(element: ReactElement, parent: Instance): Instance {
@@ -286,6 +366,26 @@ function ensureStaticInstanceFactory(element: StaticReactElement): StaticInstanc
     return factory;
 }
 
+// One untouched Instance per class, to read property defaults from
+const defaultInstances = new Map<string, Instance | false>();
+
+/**
+ * Gets the value a property has on a new Instance of the same class, or undefined if the class cannot be created
+ */
+function getDefaultPropertyValue(instance: Instance, propName: string): unknown {
+    const className = instance.ClassName;
+    let defaultInstance = defaultInstances.get(className);
+    if (defaultInstance === undefined) {
+        const [success, created] = pcall(() => new Instance(className as keyof CreatableInstances));
+        defaultInstance = success ? created : false;
+        defaultInstances.set(className, defaultInstance);
+    }
+
+    if (defaultInstance === false) return undefined;
+    const [success, value] = pcall(() => (defaultInstance as unknown as Record<string, unknown>)[propName]);
+    return success ? value : undefined;
+}
+
 /**
  * Concrete Block implementation for Roblox (following Million.js Block class)
  * This class manages Roblox Instances and applies fine-grained patches
@@ -293,9 +393,18 @@ function ensureStaticInstanceFactory(element: StaticReactElement): StaticInstanc
 export class Block extends AbstractBlock {
     declare r: ReactElement;
     declare e: PatchInstruction[];
-    private dependencyKeyMap?: Map<string, number>; // Maps dependency keys to indices
+    private structural: boolean; // Compare plain table dependencies key by key
     private childRegions = new Map<string, ChildRegionState>();
     private eventConnections = new Map<Instance, Map<string, EventConnectionRecord>>();
+    private instructionPathKeys?: string[]; // Path key of each patch instruction, parallel to `e`
+    private refPathKeys?: Set<string>; // Paths whose Instance is captured through a ref
+    private refPathPrefixes?: Set<string>; // Every ancestor path of a captured path, to know where to descend
+    private pathRefs = new Map<string, (instance: Instance | undefined) => void>();
+    // Path refs chained with a user ref, kept so the same user ref yields the same ref and React does not reattach it
+    private composedPathRefs = new Map<string, { userRef: unknown; ref: (instance: Instance | undefined) => void }>();
+    private spreadValues = new Map<PropEdit, Map<string, unknown>>(); // Last value written for each key of a spread
+    private wrappedSource?: ReactElement;
+    private wrappedElement?: ReactElement;
 
     constructor(
         rootElement: ReactElement,
@@ -303,6 +412,7 @@ export class Block extends AbstractBlock {
         props?: unknown[] | undefined,
         key?: string | undefined,
         shouldUpdate?: ((oldProps: unknown[], newProps: unknown[]) => boolean) | undefined,
+        structural = false,
     ) {
         super();
         this.r = rootElement;
@@ -310,32 +420,13 @@ export class Block extends AbstractBlock {
         this.e = edits;
         this.k = key;
         this.c = new Map<string, Instance>();
+        this.structural = structural;
 
         if (shouldUpdate !== undefined) {
             this._u = shouldUpdate;
         } else {
             this._u = undefined;
         }
-
-        // Build dependency key map from patch instructions
-        this.buildDependencyKeyMap();
-    }
-
-    /**
-     * Build a map of dependency keys to their indices in the dependencies array
-     */
-    private buildDependencyKeyMap(): void {
-        this.dependencyKeyMap = new Map<string, number>();
-        const seenKeys = new Set<string>();
-
-        for (const instruction of this.e) {
-            for (const edit of instruction.edits) {
-                if (!seenKeys.has(edit.dependencyKey)) {
-                    seenKeys.add(edit.dependencyKey);
-                    this.dependencyKeyMap.set(edit.dependencyKey, this.dependencyKeyMap.size());
-                }
-            }
-        }
     }
 
     /**
@@ -359,13 +450,11 @@ export class Block extends AbstractBlock {
     /**
      * Patch the block - applies fine-grained updates (THIS IS THE KEY METHOD!)
      */
-    p(newBlock: AbstractBlock): Instance | undefined {
+    p(newProps: unknown[], newRoot?: ReactElement): Instance | undefined {
         const root = this.l;
         if (root === undefined) return undefined;
-        if (newBlock.d === undefined) return root;
 
         const oldProps = this.d!;
-        const newProps = newBlock.d;
 
         // CRITICAL: Check shouldUpdate and early exit if no changes
         if (!this.u(oldProps, newProps)) {
@@ -376,19 +465,17 @@ export class Block extends AbstractBlock {
         this.d = newProps;
 
         // Apply fine-grained patches
-        for (const instruction of this.e) {
-            const targetInstance = this.getInstanceAtPath(root, instruction.elementPath);
+        const pathKeys = this.getInstructionPathKeys();
+        for (let i = 0; i < this.e.size(); i++) {
+            const instruction = this.e[i];
+            const targetInstance = this.getCachedInstance(root, pathKeys[i], instruction.elementPath);
             if (targetInstance === undefined) continue;
 
             for (const edit of instruction.edits) {
-                const dependencyIndex = this.getDependencyIndex(edit.dependencyKey);
-                const oldValue = oldProps[dependencyIndex];
-                const newValue = newProps[dependencyIndex];
-
-                // Skip if value hasn't changed
-                if (oldValue === newValue) continue;
+                // Skip unless at least one of the values this edit reads has changed
+                if (!this.hasEditChanged(edit, oldProps, newProps)) continue;
 
-                this.applyEdit(targetInstance, edit, oldValue, newValue, newBlock as Block);
+                this.applyEdit(targetInstance, edit, oldProps, newProps, newRoot ?? this.r);
             }
         }
 
@@ -434,7 +521,7 @@ export class Block extends AbstractBlock {
             return this._u(oldProps, newProps);
         }
         // Default implementation: check if any dependency changed
-        return shouldUpdateBlock(oldProps, newProps);
+        return shouldUpdateBlock(oldProps, newProps, this.structural);
     }
 
     /**
@@ -447,6 +534,177 @@ export class Block extends AbstractBlock {
         return this._t;
     }
 
+    /**
+     * Clones the element tree with refs on the root and on every element a patch instruction targets,
+     * so the block captures those Instances at mount instead of searching for them on every patch.
+     * The clone is cached, so wrapping the same element again returns the same tree.
+     */
+    w(element: ReactElement): ReactElement {
+        if (element === this.wrappedSource && this.wrappedElement !== undefined) {
+            return this.wrappedElement;
+        }
+
+        if (this.refPathKeys === undefined || this.refPathPrefixes === undefined) {
+            this.refPathKeys = new Set<string>([""]);
+            this.refPathPrefixes = new Set<string>([""]);
+            for (const instruction of this.e) {
+                let key = "";
+                for (const index of instruction.elementPath) {
+                    key = key === "" ? tostring(index) : `${key}.${index}`;
+                    this.refPathPrefixes.add(key);
+                }
+                this.refPathKeys.add(key);
+            }
+        }
+
+        const wrapped = this.attachPathRefs(element, "");
+        this.wrappedSource = element;
+        this.wrappedElement = wrapped;
+        elementBlockMap.set(wrapped, this);
+        return wrapped;
+    }
+
+    private attachPathRefs(element: ReactElement, key: string): ReactElement {
+        const children = (element.props as Record<string, unknown> | undefined)?.children;
+        let nextChildren = children;
+
+        if (typeIs(children, "table")) {
+            if ((children as ReactElement).type !== undefined) {
+                // A single child is stored directly rather than in an array
+                const childKey = key === "" ? "0" : `${key}.0`;
+                if (this.refPathPrefixes!.has(childKey)) {
+                    nextChildren = this.attachPathRefs(children as ReactElement, childKey);
+                }
+            } else {
+                const childList = children as unknown[];
+                let copied: unknown[] | undefined;
+                for (let i = 0; i < childList.size(); i++) {
+                    const child = childList[i];
+                    const childKey = key === "" ? tostring(i) : `${key}.${i}`;
+                    if (!this.refPathPrefixes!.has(childKey)) continue;
+                    if (!typeIs(child, "table") || (child as ReactElement).type === undefined) continue;
+
+                    copied ??= table.clone(childList);
+                    copied[i] = this.attachPathRefs(child as ReactElement, childKey);
+                }
+                if (copied !== undefined) {
+                    nextChildren = copied;
+                }
+            }
+        }
+
+        const isTarget = this.refPathKeys!.has(key);
+        if (!isTarget && nextChildren === children) {
+            return element;
+        }
+
+        const overrides: Record<string, unknown> = {};
+        if (isTarget) {
+            overrides.ref = this.getPathRef(key, (element as unknown as { ref?: unknown }).ref);
+        }
+        if (nextChildren !== children) {
+            overrides.children = nextChildren;
+        }
+        return React.cloneElement(element, overrides as never);
+    }
+
+    /**
+     * Gets the ref that captures the Instance at a path, chained with any ref the element already had
+     */
+    private getPathRef(key: string, existingRef: unknown): (instance: Instance | undefined) => void {
+        let pathRef = this.pathRefs.get(key);
+        if (pathRef === undefined) {
+            pathRef = (instance: Instance | undefined) => this.captureInstance(key, instance);
+            this.pathRefs.set(key, pathRef);
+        }
+        if (existingRef === undefined) {
+            return pathRef;
+        }
+
+        const composed = this.composedPathRefs.get(key);
+        if (composed !== undefined && composed.userRef === existingRef) {
+            return composed.ref;
+        }
+
+        const ref = composeRef(pathRef, existingRef);
+        this.composedPathRefs.set(key, { userRef: existingRef, ref });
+        return ref;
+    }
+
+    private captureInstance(key: string, instance: Instance | undefined): void {
+        if (key === "") {
+            if (instance !== undefined) {
+                this.l = instance;
+                instanceBlockMap.set(instance, this);
+            } else if (this.l !== undefined) {
+                instanceBlockMap.delete(this.l);
+                this.l = undefined;
+            }
+            return;
+        }
+
+        if (instance !== undefined) {
+            this.c!.set(key, instance);
+        } else {
+            this.c!.delete(key);
+        }
+    }
+
+    private getInstructionPathKeys(): string[] {
+        if (this.instructionPathKeys === undefined) {
+            this.instructionPathKeys = this.e.map((instruction) => instruction.elementPath.join("."));
+        }
+        return this.instructionPathKeys;
+    }
+
+    /**
+     * Gets the Instance at a path, preferring the reference captured at mount
+     * Paths that get a capturing ref only use the capture, since the order of `GetChildren()` also holds mounted
+     * child regions and marker Folders. Other paths fall back to searching the tree and cache the result.
+     */
+    private getCachedInstance(root: Instance, key: string, path: number[]): Instance | undefined {
+        if (key === "") return root;
+
+        const cached = this.c!.get(key);
+        if (cached !== undefined && cached.Parent !== undefined) {
+            return cached;
+        }
+        if (this.refPathKeys?.has(key)) {
+            return undefined;
+        }
+
+        const instance = this.getInstanceAtPath(root, path);
+        if (instance !== undefined) {
+            this.c!.set(key, instance);
+        } else {
+            this.c!.delete(key);
+        }
+        return instance;
+    }
+
+    /**
+     * Drops cached Instances of a child region's dynamic children (and their descendants), which were just rearranged.
+     * Static siblings before the region keep their entries, and captured Instances stay valid since their refs do not
+     * fire again.
+     */
+    private invalidateInstanceCache(region: ChildRegionState): void {
+        const parentKey = region.path.join(".");
+        const prefix = parentKey === "" ? "" : `${parentKey}.`;
+        const stale: string[] = [];
+        for (const [key] of this.c!) {
+            if (key === parentKey || key.sub(1, prefix.size()) !== prefix || this.refPathKeys?.has(key)) {
+                continue;
+            }
+            const index = tonumber(key.sub(prefix.size() + 1).split(".")[0]);
+            if (index !== undefined && index >= region.startIndex) {
+                stale.push(key);
+            }
+        }
+        for (const key of stale) {
+            this.c!.delete(key);
+        }
+    }
+
     /**
      * Get instance at a specific path in the tree
      */
@@ -467,12 +725,15 @@ export class Block extends AbstractBlock {
     }
 
     /**
-     * Get the dependency index from the dependency key
-     * This maps dependency keys to their position in the dependencies array
+     * Check whether any dependency read by an edit differs between the old and new props
      */
-    private getDependencyIndex(dependencyKey: string): number {
-        if (this.dependencyKeyMap === undefined) return 0;
-        return this.dependencyKeyMap.get(dependencyKey) ?? 0;
+    private hasEditChanged(edit: PropEdit | ChildEdit, oldProps: unknown[], newProps: unknown[]): boolean {
+        for (const dependencyIndex of edit.dependencyIndices) {
+            if (!areValuesEqual(oldProps[dependencyIndex], newProps[dependencyIndex], this.structural)) {
+                return true;
+            }
+        }
+        return false;
     }
 
     /**
@@ -481,30 +742,83 @@ export class Block extends AbstractBlock {
     private applyEdit(
         instance: Instance,
         edit: PropEdit | ChildEdit,
-        oldValue: unknown,
-        newValue: unknown,
-        newBlock: Block,
+        oldProps: unknown[],
+        newProps: unknown[],
+        newRoot: ReactElement,
     ): void {
-        if (edit.type === EditType.Attribute || edit.type === EditType.Style || edit.type === EditType.Event) {
+        if (edit.type === EditType.Event || (edit as PropEdit).propName === "Change") {
+            // React connects the handlers of the elements it renders, and reconnects them when the block re-renders
+            return;
+        }
+
+        if (edit.type === EditType.Attribute || edit.type === EditType.Style) {
             const propEdit = edit as PropEdit;
-            const nextPropValue = this.getPropValueFromElement(newBlock, propEdit);
+            const nextPropValue =
+                propEdit.value !== undefined
+                    ? propEdit.value(...newProps)
+                    : propEdit.hole !== undefined
+                      ? newProps[propEdit.hole]
+                      : this.getPropValueFromElement(newRoot, propEdit);
 
             if (edit.type === EditType.Attribute) {
                 this.setAttribute(instance, propEdit.propName, nextPropValue);
-            } else if (edit.type === EditType.Style) {
-                this.setStyleAttribute(instance, propEdit.propName, nextPropValue);
             } else {
-                this.setEventAttribute(instance, propEdit.propName, nextPropValue);
+                this.setStyleAttribute(instance, propEdit.propName, nextPropValue);
             }
         } else if (edit.type === EditType.Child) {
             const childEdit = edit as ChildEdit;
-            this.setChild(instance, childEdit, oldValue, newValue, newBlock);
+            this.setChild(instance, childEdit, oldProps, newProps, newRoot);
+        } else if (edit.type === EditType.Spread) {
+            this.applySpread(instance, edit as PropEdit, newProps, newRoot);
+        }
+    }
+
+    /**
+     * Applies a spread prop bag: writes the keys whose value changed, and resets the keys the bag no longer sets
+     * Values are read from the rendered element, where React's rule that later props win has already been applied
+     */
+    private applySpread(instance: Instance, edit: PropEdit, newProps: unknown[], newRoot: ReactElement): void {
+        const bag = edit.value !== undefined ? edit.value(...newProps) : undefined;
+        const element = this.getElementAtPath(newRoot, edit.path ?? []);
+        const renderedProps = (element?.props as Record<string, unknown> | undefined) ?? {};
+        const previousValues = this.spreadValues.get(edit);
+        const nextValues = new Map<string, unknown>();
+
+        if (typeIs(bag, "table")) {
+            for (const [key] of pairs(bag as Record<string, unknown>)) {
+                if (!typeIs(key, "string") || key === "children" || key === "key" || key === "ref") continue;
+
+                const value = renderedProps[key];
+                nextValues.set(key, value);
+                if (previousValues === undefined || !previousValues.has(key) || previousValues.get(key) !== value) {
+                    this.setSpreadValue(instance, key, value);
+                }
+            }
+        }
+
+        if (previousValues !== undefined) {
+            for (const [key] of previousValues) {
+                if (nextValues.has(key)) continue;
+
+                // An explicit prop may still set the key; otherwise the property goes back to its default
+                const value = renderedProps[key];
+                this.setSpreadValue(instance, key, value !== undefined ? value : getDefaultPropertyValue(instance, key));
+            }
         }
+
+        this.spreadValues.set(edit, nextValues);
     }
 
-    private getPropValueFromElement(block: Block, edit: PropEdit): unknown {
+    private setSpreadValue(instance: Instance, key: string, value: unknown): void {
+        // React connects the handlers of the elements it renders, and Change is not a property of the Instance
+        if (key !== "Event" && key !== "Change") {
+            this.setAttribute(instance, key, value);
+        }
+    }
+
+    private getPropValueFromElement(root: ReactElement, edit: PropEdit): unknown {
         const elementPath = edit.path ?? [];
-        const targetElement = this.getElementAtPath(block.r, elementPath);
+        const targetElement = this.getElementAtPath(root, elementPath);
         const props = (targetElement?.props as Record<string, unknown>) ?? {};
         return props[edit.propName];
     }
@@ -520,69 +834,6 @@ export class Block extends AbstractBlock {
         this.setAttribute(instance, propName, value);
     }
 
-    private setEventAttribute(instance: Instance, propName: string, value: unknown): void {
-        if (propName !== "Event") {
-            return;
-        }
-
-        const nextEvents = typeIs(value, "table") ? (value as Record<string, Callback>) : undefined;
-        let connectionMap = this.eventConnections.get(instance);
-
-        if (connectionMap !== undefined) {
-            const pendingRemoval: string[] = [];
-            connectionMap.forEach((record, eventName) => {
-                const nextHandler = nextEvents !== undefined ? nextEvents[eventName] : undefined;
-                if (nextHandler === undefined || nextHandler !== record.handler) {
-                    record.connection.Disconnect();
-                    pendingRemoval.push(eventName);
-                }
-            });
-
-            for (const eventName of pendingRemoval) {
-                connectionMap.delete(eventName);
-            }
-        }
-
-        if (nextEvents !== undefined) {
-            if (connectionMap === undefined) {
-                connectionMap = new Map<string, EventConnectionRecord>();
-            }
-
-            for (const [eventName, handler] of pairs(nextEvents)) {
-                if (!typeIs(handler, "function")) {
-                    continue;
-                }
-
-                const existing = connectionMap.get(eventName);
-                if (existing !== undefined && existing.handler === handler) {
-                    continue;
-                }
-
-                if (existing !== undefined) {
-                    existing.connection.Disconnect();
-                    connectionMap.delete(eventName);
-                }
-
-                const signalCandidate = (instance as unknown as Record<string, unknown>)[eventName];
-                if (signalCandidate !== undefined && typeIs(signalCandidate, "RBXScriptSignal")) {
-                    const connection = (signalCandidate as RBXScriptSignal).Connect(handler as Callback);
-                    connectionMap.set(eventName, {
-                        handler: handler as Callback,
-                        connection,
-                    });
-                }
-            }
-
-            if (connectionMap.size() > 0) {
-                this.eventConnections.set(instance, connectionMap);
-            } else {
-                this.clearEventConnectionsForInstance(instance, connectionMap);
-            }
-        } else if (connectionMap !== undefined) {
-            this.clearEventConnectionsForInstance(instance, connectionMap);
-        }
-    }
-
     private clearEventConnectionsForInstance(
         instance: Instance,
         connectionMap?: Map<string, EventConnectionRecord>,
@@ -611,26 +862,34 @@ export class Block extends AbstractBlock {
     private setChild(
         instance: Instance,
         edit: ChildEdit,
-        _oldValue: unknown,
-        _newValue: unknown,
-        newBlock: Block,
+        oldProps: unknown[],
+        newProps: unknown[],
+        newRoot: ReactElement,
     ): void {
         const parentPath = this.getParentPathForChild(edit);
         const regionKey = this.getChildRegionKey(edit);
-        const parentOld = this.getElementAtPath(this.r, parentPath);
-        const parentNew = this.getElementAtPath(newBlock.r, parentPath);
+        let region = this.childRegions.get(regionKey);
 
-        if (parentOld === undefined || parentNew === undefined) {
-            return;
-        }
+        let oldDynamic: Array<{ key: string; node: ChildNode }>;
+        let newDynamic: Array<{ key: string; node: ChildNode }>;
 
-    const oldChildren = this.getChildrenArray(parentOld);
-    const newChildren = this.getChildrenArray(parentNew);
+        if (edit.value !== undefined) {
+            // Holes give us the child content directly; the old content is only needed to seed a new region
+            oldDynamic =
+                region === undefined ? this.collectChildNodes(this.normalizeChildren(edit.value(...oldProps)), 0) : [];
+            newDynamic = this.collectChildNodes(this.normalizeChildren(edit.value(...newProps)), 0);
+        } else {
+            const parentOld = this.getElementAtPath(this.r, parentPath);
+            const parentNew = this.getElementAtPath(newRoot, parentPath);
 
-    const oldDynamic = this.collectChildNodes(oldChildren, edit.index);
-    const newDynamic = this.collectChildNodes(newChildren, edit.index);
+            if (parentOld === undefined || parentNew === undefined) {
+                return;
+            }
+
+            oldDynamic = this.collectChildNodes(this.getChildrenArray(parentOld), edit.index);
+            newDynamic = this.collectChildNodes(this.getChildrenArray(parentNew), edit.index);
+        }
 
-        let region = this.childRegions.get(regionKey);
         if (region === undefined) {
             region = {
                 path: parentPath,
@@ -642,6 +901,7 @@ export class Block extends AbstractBlock {
         }
 
         this.applyChildDiff(instance, region, oldDynamic, newDynamic);
+        this.invalidateInstanceCache(region);
     }
 
     private getChildRegionKey(edit: ChildEdit): string {
@@ -679,13 +939,21 @@ export class Block extends AbstractBlock {
 
         const normalized: ReactElement[] = [];
 
+        // Fragments create no Instance, so their children count as children of the fragment's parent
         const pushChild = (child: unknown) => {
-            if (typeIs(child, "table") && (child as ReactElement).type !== undefined) {
+            if (!typeIs(child, "table") || (child as ReactElement).type === undefined) return;
+
+            if ((child as ReactElement).type === React.Fragment) {
+                const fragmentChildren = ((child as ReactElement).props as Record<string, unknown>)?.children;
+                for (const fragmentChild of this.normalizeChildren(fragmentChildren as ReactNode | undefined)) {
+                    normalized.push(fragmentChild);
+                }
+            } else {
                 normalized.push(child as ReactElement);
             }
         };
 
-        if (typeIs(children, "table")) {
+        if (typeIs(children, "table") && (children as ReactElement).type === undefined) {
             for (const [, child] of pairs(children as unknown[])) {
                 pushChild(child);
             }
@@ -1238,6 +1506,7 @@ export interface BlockInstance {
     dependencies: unknown[];
     staticProps?: Record<string, unknown>;
     lastRenderTime: number;
+    generation: number;
 }
 
 interface BlockChildNode {
@@ -1252,107 +1521,605 @@ interface ElementChildNode {
 
 type ChildNode = BlockChildNode | ElementChildNode;
 
+/**
+ * Verifies that every edit's compile-time dependency indices point at the dependency of the same name
+ * Only runs in development, where the transformer also passes the names of the dependencies
+ */
+function assertDependencyIndices(
+    patchInstructions: PatchInstruction[],
+    dependencyKeys: string[],
+    blockId: string,
+): void {
+    for (const instruction of patchInstructions) {
+        for (const edit of instruction.edits) {
+            if (edit.dependencyIndices.size() !== edit.dependencyKeys.size()) {
+                error(`[decillion] Block ${blockId} has an edit with mismatched dependency keys and indices`, 3);
+            }
+
+            for (let i = 0; i < edit.dependencyIndices.size(); i++) {
+                const dependencyIndex = edit.dependencyIndices[i];
+                const expectedKey = edit.dependencyKeys[i];
+                const actualKey = dependencyKeys[dependencyIndex];
+                if (actualKey !== expectedKey) {
+                    error(
+                        `[decillion] Block ${blockId} expected dependency "${expectedKey}" at index ${dependencyIndex} but found "${actualKey}"`,
+                        3,
+                    );
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Checks whether every edit carries a value getter (or reads a list row hole), so patches never need a freshly rendered element tree
+ * A block without edits (e.g. one whose only dynamic children are branch switches) can only change by re-rendering
+ */
+function hasValueGetters(patchInstructions: PatchInstruction[]): boolean {
+    let hasEdits = false;
+    for (const instruction of patchInstructions) {
+        for (const edit of instruction.edits) {
+            // Spreads read their values from the rendered element, so they always need a re-render
+            if (edit.type === EditType.Spread) return false;
+            if (edit.value === undefined && (edit as PropEdit).hole === undefined) return false;
+            hasEdits = true;
+        }
+    }
+    return hasEdits;
+}
+
 /**
  * Creates a fine-grained memoized block that patches individual properties
  * THIS IS THE KEY FUNCTION - it creates persistent Block instances that bypass React reconciliation!
+ *
+ * Patch instructions and dependency names are passed as functions that are only called on the first render.
+ * They capture nothing, so Luau shares a single closure for them, and later renders allocate no tables for them.
  */
 export function useFinePatchBlock<T extends unknown[]>(
     renderFn: (...deps: T) => ReactElement,
     dependencies: T,
-    patchInstructions: PatchInstruction[],
+    patchInstructions: () => PatchInstruction<T>[],
     blockId: string,
+    dependencyKeys?: () => string[],
+    options?: BlockUpdateOptions,
 ): ReactElement {
     // Store the Block instance across renders (THIS IS CRITICAL!)
     const blockRef = useRef<Block | undefined>(undefined);
-    const instanceRef = useRef<Instance | undefined>(undefined);
+    const liveRecordRef = useRef<LiveBlockRecord | undefined>(undefined);
     
-    // Track if this is the first render
-    const isFirstRender = blockRef.current === undefined;
-
+    // Track if this is the first render, or the first with a new key, which identifies a different block
+    const key = options?.key !== undefined ? tostring(options.key) : undefined;
+    const committedBlock = blockRef.current;
+    const isFirstRender = committedBlock === undefined || (key !== undefined && committedBlock.k !== key);
+
+    // Rendering must stay free of side effects: StrictMode renders twice and concurrent renders can be thrown away.
+    // So we only work out what this render would look like here, and patch Instances once React commits it.
+    let block: Block;
     if (isFirstRender) {
+        const instructions = patchInstructions() as PatchInstruction[];
+        if (DEV && dependencyKeys !== undefined) {
+            assertDependencyIndices(instructions, dependencyKeys(), blockId);
+        }
+
         // First render: create the Block instance
+        // It is only stored in the ref once React commits this render, so a block of an abandoned render (such as one
+        // for a key that reverts before committing) is never kept, registered or left to clean up
         const rootElement = renderFn(...dependencies);
-        const block = new Block(
+        block = new Block(
             rootElement,
-            patchInstructions,
+            instructions,
             dependencies as unknown[],
-            blockId,
+            key ?? blockId,
+            options?.shouldUpdate,
+            options?.structural,
         );
-        blockRef.current = block;
-        finePatchBlockCache.set(blockId, block);
+        block._h = hasValueGetters(block.e);
         elementBlockMap.set(rootElement, block);
     } else {
-        // Subsequent renders: patch the existing block
-        const block = blockRef.current!;
-        const oldDeps = block.d as T;
-        const newDeps = dependencies;
-
-        // Check if we need to update
-        if (block.u(oldDeps as unknown[], newDeps as unknown[])) {
-            // Create a new block with updated props to pass to patch()
-            const newRootElement = renderFn(...newDeps);
-            const newBlock = new Block(
-                newRootElement,
-                patchInstructions,
-                newDeps as unknown[],
-                blockId,
-            );
-
-            // Patch the existing block (THIS is where the magic happens!)
-            // If shouldUpdate returns false in patch(), no tree walking occurs
-            block.p(newBlock);
-            
-            // Update the root element for subsequent renders
-            block.r = newRootElement;
-            elementBlockMap.set(newRootElement, block);
-        }
-        // If shouldUpdate was false, we skip everything and return the cached element
-    }
-
-    // Capture the Instance when React mounts it
-    const refCallback = (instance: Instance | undefined) => {
-        const block = blockRef.current;
-        if (block === undefined) return;
+        block = committedBlock!;
+    }
 
-        if (instance !== undefined) {
-            block.l = instance;
-            instanceRef.current = instance;
-            instanceBlockMap.set(instance, block);
-        } else if (instanceRef.current !== undefined) {
-            instanceBlockMap.delete(instanceRef.current);
-            instanceRef.current = undefined;
-            block.l = undefined;
-        }
-    };
+    let renderedElement = block.r;
+    if (!isFirstRender && !block._h && block.u(block.d!, dependencies as unknown[])) {
+        renderedElement = renderFn(...dependencies);
+    }
 
-    // Use a special component that refs the block's root instance
-    // This allows React to mount the initial tree, but blocks handle subsequent updates
-    useEffect(() => {
-        const block = blockRef.current;
-        if (block === undefined) return;
+    // Register this mount in the live registry, and tear the block down when it unmounts
+    // Declared before the patch effect so the record exists by the time that effect runs
+    useLayoutEffect(() => {
+        blockRef.current = block;
+        const record = registerLiveBlock(blockId, block);
+        liveRecordRef.current = record;
 
-        // Cleanup when unmounted
         return () => {
             block.x();
-            finePatchBlockCache.delete(blockId);
-            if (instanceRef.current !== undefined) {
-                instanceBlockMap.delete(instanceRef.current);
+            unregisterLiveBlock(record);
+            liveRecordRef.current = undefined;
+        };
+    }, [blockId, key]);
+
+    // Layout effects run only for committed renders, after refs are attached and before the frame is presented,
+    // so the Instance tree always reflects the last committed dependencies
+    useLayoutEffect(() => {
+        if (block.d === dependencies) return;
+
+        // Patch the existing block in place (THIS is where the magic happens!)
+        // If shouldUpdate returns false in patch(), no tree walking occurs and the stored props stay as they were
+        const record = liveRecordRef.current!;
+        const startTime = os.clock();
+        block.p(dependencies as unknown[], renderedElement);
+        if (block.d !== dependencies) {
+            record.hits++;
+            return;
+        }
+        record.updates++;
+        record.updateTime += os.clock() - startTime;
+
+        // Remember the committed element so the next patch diffs against it
+        if (renderedElement !== block.r) {
+            block.r = renderedElement;
+            elementBlockMap.set(renderedElement, block);
+        }
+    });
+
+    // CRITICAL: The block captures its root Instance, and every Instance it patches, through refs on the element tree
+    return block.w(renderedElement);
+}
+
+interface FinePatchBlockHostProps {
+    renderFn: (...deps: unknown[]) => ReactElement;
+    dependencies: unknown[];
+    patchInstructions: () => PatchInstruction[];
+    blockId: string;
+    dependencyKeys?: () => string[];
+    options?: BlockUpdateOptions;
+}
+
+/**
+ * Owns the fine-patch block of a site that cannot call hooks itself
+ */
+function FinePatchBlockHost(props: FinePatchBlockHostProps) {
+    return useFinePatchBlock(
+        props.renderFn,
+        props.dependencies,
+        props.patchInstructions,
+        props.blockId,
+        props.dependencyKeys,
+        props.options,
+    );
+}
+
+/**
+ * Renders a fine-patch block from code that cannot call hooks, such as the render method of a class component
+ * The transformer emits this instead of useFinePatchBlock there. The block lives in a host component, so every mounted
+ * instance keeps its own Block and tears it down on unmount, as it would in a function component.
+ */
+export function createFinePatchBlock<T extends unknown[]>(
+    renderFn: (...deps: T) => ReactElement,
+    dependencies: T,
+    patchInstructions: () => PatchInstruction<T>[],
+    blockId: string,
+    dependencyKeys?: () => string[],
+    options?: BlockUpdateOptions,
+): ReactElement {
+    return React.createElement(FinePatchBlockHost, {
+        // The host takes the root element's key, so a new key mounts a new host (and block) in its place
+        key: options?.key,
+        renderFn: renderFn as (...deps: unknown[]) => ReactElement,
+        dependencies,
+        patchInstructions: patchInstructions as () => PatchInstruction[],
+        blockId,
+        dependencyKeys,
+        options,
+    });
+}
+
+/**
+ * Chains a ref that captures an Instance with the ref an element already had, which may be a callback or a ref object
+ */
+function composeRef(
+    capture: (instance: Instance | undefined) => void,
+    existingRef: unknown,
+): (instance: Instance | undefined) => void {
+    if (existingRef === undefined) {
+        return capture;
+    }
+
+    return (instance: Instance | undefined) => {
+        capture(instance);
+        if (typeIs(existingRef, "function")) {
+            (existingRef as (instance: Instance | undefined) => void)(instance);
+        } else if (typeIs(existingRef, "table")) {
+            (existingRef as { current?: Instance }).current = instance;
+        }
+    };
+}
+
+/**
+ * Options for a conditional branch switch
+ */
+export interface BranchSwitchOptions {
+    /** Keep inactive branches mounted and hidden instead of destroying them, so switching back does not remount */
+    keep?: boolean;
+}
+
+interface BranchHostProps {
+    render: () => ReactElement;
+    active: boolean;
+    instanceRef?: (instance: Instance | undefined) => void;
+}
+
+interface KeptBranchesProps {
+    index: number;
+    branches: Array<() => ReactElement>;
+}
+
+/**
+ * Renders a single branch. Every branch gets its own host, so the hooks it calls (such as nested blocks) keep
+ * a stable order no matter which branch is active.
+ * An inactive host does not render at all: its Instances stay as they were, and its condition may no longer hold.
+ */
+const BranchHost = React.memo(
+    (props: BranchHostProps) => {
+        const element = props.render();
+        // Only host elements can be given a ref; a component root has no Instance of its own to capture
+        if (props.instanceRef === undefined || !typeIs(element.type, "string")) {
+            return element;
+        }
+
+        const existingRef = (element as unknown as { ref?: unknown }).ref;
+        return React.cloneElement(element, { ref: composeRef(props.instanceRef, existingRef) } as never);
+    },
+    (_prevProps, nextProps) => !nextProps.active,
+);
+
+/**
+ * Keeps every branch that has been active mounted, and hides the inactive ones
+ * Only branches rooted at a GuiObject element can be hidden; others stay visible while inactive
+ */
+function KeptBranches(props: KeptBranchesProps) {
+    const { index, branches } = props;
+
+    // Branches that were active in a committed render; only updated in the layout effect so discarded renders
+    // never mount a branch whose condition does not hold
+    const visitedRef = useRef<Set<number>>();
+    const instancesRef = useRef<Map<number, Instance>>();
+    const instanceRefsRef = useRef<Map<number, (instance: Instance | undefined) => void>>();
+    const hiddenRef = useRef<Set<Instance>>();
+
+    const visited = (visitedRef.current ??= new Set<number>());
+    const instances = (instancesRef.current ??= new Map<number, Instance>());
+    const instanceRefs = (instanceRefsRef.current ??= new Map<number, (instance: Instance | undefined) => void>());
+    const hidden = (hiddenRef.current ??= new Set<Instance>());
+
+    const hosts: ReactElement[] = [];
+    for (let branchIndex = 0; branchIndex < branches.size(); branchIndex++) {
+        const active = branchIndex === index;
+        if (!active && !visited.has(branchIndex)) continue;
+
+        let instanceRef = instanceRefs.get(branchIndex);
+        if (instanceRef === undefined) {
+            instanceRef = (instance: Instance | undefined) => {
+                if (instance !== undefined) {
+                    instances.set(branchIndex, instance);
+                } else {
+                    instances.delete(branchIndex);
+                }
+            };
+            instanceRefs.set(branchIndex, instanceRef);
+        }
+
+        hosts.push(
+            React.createElement(BranchHost, {
+                key: `branch_${branchIndex}`,
+                render: branches[branchIndex],
+                active,
+                instanceRef,
+            }),
+        );
+    }
+
+    useLayoutEffect(() => {
+        if (index >= 0) {
+            visited.add(index);
+        }
+
+        for (const [branchIndex, instance] of instances) {
+            if (!instance.IsA("GuiObject")) continue;
+
+            if (branchIndex === index) {
+                if (hidden.delete(instance)) {
+                    instance.Visible = true;
+                }
+            } else if (instance.Visible) {
+                instance.Visible = false;
+                hidden.add(instance);
+            }
+        }
+    });
+
+    return React.createElement(React.Fragment, undefined, ...hosts);
+}
+
+/**
+ * Renders the branch at `index` of a conditional JSX child, or nothing when `index` is -1
+ * The transformer compiles `cond ? <a/> : <b/>` and `cond && <a/>` into this, with each branch prebuilt as its own
+ * static element or block, so switching never rebuilds the rest of the parent block.
+ * By default switching destroys the old branch; with `keep`, inactive branches stay mounted and hidden.
+ */
+export function switchBranch(
+    index: number,
+    branches: Array<() => ReactElement>,
+    options?: BranchSwitchOptions,
+): ReactElement | undefined {
+    if (options?.keep) {
+        return React.createElement(KeptBranches, { index, branches });
+    }
+
+    const render = branches[index];
+    if (render === undefined) {
+        return undefined;
+    }
+
+    // The key changes with the branch, so React unmounts the old branch rather than reusing its host
+    return React.createElement(BranchHost, { key: `branch_${index}`, render, active: true });
+}
+
+/**
+ * Prebuilt row of a compiled `.map` list
+ * Row values are `[key, ...holes]`; every dynamic prop of the row reads one hole through its edit's `hole` index
+ */
+export interface ListRowTemplate {
+    /** static element tree of a row, with every dynamic prop left out */
+    element: ReactElement;
+    /** edits that write each hole into the row's Instances */
+    instructions: PatchInstruction[];
+    /** number of holes after the key */
+    holes: number;
+    /** the row sets its own LayoutOrder, so the list must not number rows */
+    ownLayoutOrder?: boolean;
+}
+
+/**
+ * Keyed list of row blocks (following Million.js ArrayBlock)
+ * Rows are cloned from the template's static Instance tree and patched from their hole values, so React never
+ * sees them. Roblox Instances have no sibling order, so a moved row is only renumbered through LayoutOrder.
+ * Like dynamic child regions, rows are numbered from the list's position among its parent's children, so they sort
+ * after the siblings written before the list; siblings written after it need a LayoutOrder past the last row.
+ */
+export class ListBlock extends AbstractBlock {
+    /** row blocks, in list order */ b: Block[] = [];
+    private keys: defined[] = [];
+    private records: LiveBlockRecord[] = [];
+    private template: ListRowTemplate;
+    private factory: StaticInstanceFactory;
+    private listId: string;
+    private startIndex: number;
+    private compareRows: (oldRow: unknown[], newRow: unknown[]) => boolean;
+
+    constructor(template: ListRowTemplate, listId: string, startIndex = 0) {
+        super();
+        this.template = template;
+        this.factory = ensureStaticInstanceFactory(template.element as StaticReactElement);
+        this.listId = listId;
+        this.startIndex = startIndex;
+
+        // Holes may be nil, which makes the size of a row unreliable, so compare every slot up to the last hole
+        const lastIndex = template.holes;
+        this.compareRows = (oldRow, newRow) => {
+            for (let i = 0; i <= lastIndex; i++) {
+                if (!areValuesEqual(oldRow[i], newRow[i], false)) return true;
             }
+            return false;
         };
-    }, [blockId]);
+    }
 
-    // CRITICAL: We need to inject a ref into the root element to capture the Instance
-    // Clone the element and add a ref prop
-    const rootElement = blockRef.current!.r;
-    elementBlockMap.set(rootElement, blockRef.current!);
-    
-    // Add ref to the root element to capture the Instance
-    const clonedElement = React.cloneElement(rootElement, {
-        ...rootElement.props,
-        ref: refCallback,
-    } as never);
-    elementBlockMap.set(clonedElement, blockRef.current!);
-    return clonedElement;
+    /**
+     * Mount the list - rows are parented straight into `parent`
+     */
+    m(parent?: Instance, _refNode?: Instance | undefined): Instance {
+        if (parent !== undefined) {
+            this._t = parent;
+        }
+        for (const block of this.b) {
+            block.v(parent);
+        }
+        return parent!;
+    }
+
+    /**
+     * Patch the list against new rows: reuse rows by key, create rows for new keys and destroy the rest
+     */
+    p(rows: unknown[]): Instance | undefined {
+        const parent = this.t();
+        if (parent === undefined) return undefined;
+
+        const oldBlocks = this.b;
+        const oldKeys = this.keys;
+        const oldRecords = this.records;
+        const newBlocks: Block[] = [];
+        const newKeys: defined[] = [];
+        const newRecords: LiveBlockRecord[] = [];
+
+        // Fast path: rows that kept their key and position, which is every row of a list that only changed values
+        let head = 0;
+        while (head < oldBlocks.size() && head < rows.size()) {
+            const row = rows[head] as unknown[];
+            const key = (row[0] ?? head) as defined;
+            if (oldKeys[head] !== key) break;
+
+            this.patchRow(oldBlocks[head], oldRecords[head], row, head);
+            newBlocks.push(oldBlocks[head]);
+            newKeys.push(key);
+            newRecords.push(oldRecords[head]);
+            head++;
+        }
+
+        // Remaining old rows by key; a duplicate key cannot be matched, so its row is destroyed
+        const remaining = new Map<defined, number>();
+        const unmatched: number[] = [];
+        for (let i = head; i < oldBlocks.size(); i++) {
+            if (remaining.has(oldKeys[i])) {
+                unmatched.push(i);
+            } else {
+                remaining.set(oldKeys[i], i);
+            }
+        }
+
+        for (let i = head; i < rows.size(); i++) {
+            const row = rows[i] as unknown[];
+            const key = (row[0] ?? i) as defined;
+            const oldIndex = remaining.get(key);
+
+            let block: Block;
+            let record: LiveBlockRecord;
+            if (oldIndex !== undefined) {
+                remaining.delete(key);
+                block = oldBlocks[oldIndex];
+                record = oldRecords[oldIndex];
+            } else {
+                block = new Block(
+                    this.template.element,
+                    this.template.instructions,
+                    [],
+                    tostring(key),
+                    this.compareRows,
+                );
+                block._h = true;
+                block.l = this.factory(parent);
+                block._t = parent;
+                instanceBlockMap.set(block.l, block);
+                record = registerLiveBlock(this.listId, block);
+            }
+
+            this.patchRow(block, record, row, i);
+            newBlocks.push(block);
+            newKeys.push(key);
+            newRecords.push(record);
+        }
+
+        for (const [, oldIndex] of remaining) {
+            unmatched.push(oldIndex);
+        }
+        for (const oldIndex of unmatched) {
+            oldBlocks[oldIndex].x();
+            unregisterLiveBlock(oldRecords[oldIndex]);
+        }
+
+        this.b = newBlocks;
+        this.keys = newKeys;
+        this.records = newRecords;
+        return parent;
+    }
+
+    /**
+     * Remove the list and every row
+     */
+    x(): void {
+        for (let i = 0; i < this.b.size(); i++) {
+            this.b[i].x();
+            unregisterLiveBlock(this.records[i]);
+        }
+        this.b = [];
+        this.keys = [];
+        this.records = [];
+    }
+
+    /**
+     * Rows decide for themselves whether they changed
+     */
+    u(_oldProps: unknown[], _newProps: unknown[]): boolean {
+        return true;
+    }
+
+    /**
+     * Move every row to a new parent
+     */
+    v(newParent?: Instance, _refNode?: Instance | undefined): void {
+        if (newParent === undefined) return;
+        this._t = newParent;
+        for (const block of this.b) {
+            block.v(newParent);
+        }
+    }
+
+    /**
+     * Get the parent instance
+     */
+    t(): Instance | undefined {
+        return this._t;
+    }
+
+    private patchRow(block: Block, record: LiveBlockRecord, row: unknown[], index: number): void {
+        const startTime = os.clock();
+        block.p(row);
+        if (block.d !== row) {
+            record.hits++;
+        } else {
+            record.updates++;
+            record.updateTime += os.clock() - startTime;
+        }
+
+        const instance = block.l;
+        if (!this.template.ownLayoutOrder && instance !== undefined && instance.IsA("GuiObject")) {
+            const layoutOrder = this.startIndex + index;
+            if (instance.LayoutOrder !== layoutOrder) {
+                instance.LayoutOrder = layoutOrder;
+            }
+        }
+    }
+}
+
+interface ListHostProps {
+    rows: unknown[][];
+    template: () => ListRowTemplate;
+    listId: string;
+    startIndex?: number;
+}
+
+/**
+ * Hosts a list block inside the parent's React tree
+ * React only renders an empty marker Folder; the rows are parented next to it, under the same Instance, so layouts
+ * in the parent still apply to them.
+ */
+function ListHost(props: ListHostProps) {
+    const { rows, template, listId, startIndex } = props;
+    const listRef = useRef<ListBlock>();
+    const markerRef = useRef<Instance>();
+
+    // Lazily initialising the ref is the only write during render; rows are patched once React commits
+    const list = (listRef.current ??= new ListBlock(template(), listId, startIndex));
+
+    useLayoutEffect(() => {
+        const parent = markerRef.current?.Parent;
+        if (parent === undefined) return;
+
+        if (list.t() !== parent) {
+            list.m(parent);
+        }
+        list.p(rows);
+    });
+
+    useLayoutEffect(() => {
+        return () => list.x();
+    }, []);
+
+    return React.createElement("Folder", { Name: listId, ref: markerRef });
+}
+
+/**
+ * Renders the rows of a compiled `.map` child as a keyed list block
+ * The transformer compiles `items.map((item) => <frame key={item.id} Text={item.name} />)` into this: the row
+ * callback returns `[key, ...holes]` instead of an element, and the row's static tree is built once from `template`.
+ * Rows without a key are matched by position. `startIndex` is the list's position among its parent's children.
+ */
+export function mapList(
+    rows: unknown[][],
+    template: () => ListRowTemplate,
+    listId: string,
+    startIndex?: number,
+): ReactElement {
+    return React.createElement(ListHost, { rows, template, listId, startIndex });
 }
 
 interface VirtualListRange {
@@ -1502,50 +2269,102 @@ export function useVirtualList<T>(options: VirtualListOptions<T>): VirtualListRe
 
 /**
  * Creates a memoized block that only re-renders when dependencies change
+ * The memoized element lives in a ref, so every mounted component instance keeps its own copy
  */
 export function useMemoizedBlock<T extends unknown[]>(
     renderFn: (...deps: T) => ReactElement,
     dependencies: T,
     blockId: string,
+    options?: BlockUpdateOptions,
 ): ReactElement {
-    const cached = blockCache.get(blockId);
-    const prevDeps = dependencyCache.get(blockId) || [];
+    return useBlockMemo(renderFn, dependencies, blockId, undefined, options);
+}
 
-    // Check if we need to update
-    const shouldUpdate = !cached || shouldUpdateBlock(prevDeps, dependencies);
+/**
+ * Memo storage shared by useMemoizedBlock and createBlock
+ */
+function useBlockMemo<T extends unknown[]>(
+    renderFn: (...deps: T) => ReactElement,
+    dependencies: T,
+    blockId: string,
+    staticProps?: Record<string, unknown>,
+    options?: BlockUpdateOptions,
+): ReactElement {
+    const memoRef = useRef<BlockInstance>();
+    const liveRecordRef = useRef<LiveBlockRecord>();
+    let memo = memoRef.current;
 
+    // Check if we need to update
+    const shouldUpdate =
+        memo === undefined ||
+        memo.generation !== memoGeneration ||
+        (options?.shouldUpdate !== undefined
+            ? options.shouldUpdate(memo.dependencies, dependencies)
+            : shouldUpdateBlock(memo.dependencies, dependencies, options?.structural));
+
+    let renderTime = 0;
     if (shouldUpdate) {
         // Re-render the block
+        const startTime = os.clock();
         const newElement = renderFn(...dependencies);
+        renderTime = os.clock() - startTime;
+
+        if (memo === undefined) {
+            memo = {
+                id: blockId,
+                element: newElement,
+                dependencies: [...dependencies],
+                staticProps,
+                lastRenderTime: tick(),
+                generation: memoGeneration,
+            };
+            memoRef.current = memo;
+        } else {
+            memo.element = newElement;
+            memo.dependencies = [...dependencies];
+            memo.lastRenderTime = tick();
+            memo.generation = memoGeneration;
+        }
+    }
 
-        const blockInstance: BlockInstance = {
-            id: blockId,
-            element: newElement,
-            dependencies: [...dependencies],
-            lastRenderTime: tick(),
+    // Only mounted instances are tracked, and they stop being tracked as soon as they unmount
+    useEffect(() => {
+        const record = registerLiveBlock(blockId);
+        liveRecordRef.current = record;
+        return () => {
+            unregisterLiveBlock(record);
+            liveRecordRef.current = undefined;
         };
+    }, [blockId]);
 
-        blockCache.set(blockId, blockInstance);
-        dependencyCache.set(blockId, [...dependencies]);
+    // Count committed renders only, so renders React throws away do not skew the statistics
+    useEffect(() => {
+        const record = liveRecordRef.current;
+        if (record === undefined) return;
 
-        return newElement;
-    }
+        if (shouldUpdate) {
+            record.updates++;
+            record.updateTime += renderTime;
+        } else {
+            record.hits++;
+        }
+    });
 
     // Return cached element
-    return cached!.element!;
+    return memo!.element!;
 }
 
 /**
  * Determines if a block should update based on dependency changes
  * This is the core optimization - if this returns false, NO tree walking happens!
  */
-export function shouldUpdateBlock(prevDeps: unknown[], nextDeps: unknown[]): boolean {
+export function shouldUpdateBlock(prevDeps: unknown[], nextDeps: unknown[], structural = false): boolean {
     if (prevDeps.size() !== nextDeps.size()) {
         return true;
     }
 
     for (let i = 0; i < prevDeps.size(); i++) {
-        if (prevDeps[i] !== nextDeps[i]) {
+        if (!areValuesEqual(prevDeps[i], nextDeps[i], structural)) {
             return true;
         }
     }
@@ -1553,33 +2372,77 @@ export function shouldUpdateBlock(prevDeps: unknown[], nextDeps: unknown[]): boo
     return false;
 }
 
+const isSameUDim = (a: UDim, b: UDim) => a.Scale === b.Scale && a.Offset === b.Offset;
+const isSameVector2 = (a: Vector2, b: Vector2) => a.X === b.X && a.Y === b.Y;
+const isSameColor3 = (a: Color3, b: Color3) => a.R === b.R && a.G === b.G && a.B === b.B;
+
+// Value comparisons for Roblox datatypes, which are usually rebuilt from props on every render
+// EnumItems need no entry: each one is a singleton, so identity already is value equality
+const datatypeEquality: { [K in keyof CheckableTypes]?: (a: CheckableTypes[K], b: CheckableTypes[K]) => boolean } = {
+    UDim: isSameUDim,
+    UDim2: (a, b) => isSameUDim(a.X, b.X) && isSameUDim(a.Y, b.Y),
+    Vector2: isSameVector2,
+    Vector3: (a, b) => a.X === b.X && a.Y === b.Y && a.Z === b.Z,
+    Color3: isSameColor3,
+    CFrame: (a, b) => a.FuzzyEq(b, 0),
+    Rect: (a, b) => isSameVector2(a.Min, b.Min) && isSameVector2(a.Max, b.Max),
+    NumberRange: (a, b) => a.Min === b.Min && a.Max === b.Max,
+    ColorSequence: (a, b) => {
+        const aKeypoints = a.Keypoints;
+        const bKeypoints = b.Keypoints;
+        if (aKeypoints.size() !== bKeypoints.size()) return false;
+        for (let i = 0; i < aKeypoints.size(); i++) {
+            const aKeypoint = aKeypoints[i];
+            const bKeypoint = bKeypoints[i];
+            if (aKeypoint.Time !== bKeypoint.Time || !isSameColor3(aKeypoint.Value, bKeypoint.Value)) return false;
+        }
+        return true;
+    },
+};
+
+/**
+ * Compares two dependency values
+ * Roblox datatypes compare by value; with `structural`, plain tables compare key by key, one level deep
+ */
+function areValuesEqual(a: unknown, b: unknown, structural: boolean): boolean {
+    if (a === b) return true;
+
+    const valueType = typeOf(a);
+    if (valueType !== typeOf(b)) return false;
+
+    if (valueType === "table") {
+        return structural && areTablesShallowEqual(a as object, b as object);
+    }
+
+    const isEqual = datatypeEquality[valueType as keyof CheckableTypes] as
+        | ((a: unknown, b: unknown) => boolean)
+        | undefined;
+    return isEqual !== undefined && isEqual(a, b);
+}
+
+function areTablesShallowEqual(a: object, b: object): boolean {
+    const aTable = a as Record<string, unknown>;
+    const bTable = b as Record<string, unknown>;
+    for (const [key, value] of pairs(aTable)) {
+        if (!areValuesEqual(value, bTable[key as string], false)) return false;
+    }
+    for (const [key] of pairs(bTable)) {
+        if (aTable[key as string] === undefined) return false;
+    }
+    return true;
+}
+
 /**
  * Creates an optimized block with static prop caching
  */
 export function createBlock<T extends unknown[]>(
     renderFn: (...deps: T) => ReactElement,
     staticProps?: Record<string, unknown>,
+    options?: BlockUpdateOptions,
 ): (...deps: T) => ReactElement {
-    return (...dependencies: T) => {
-        const blockId = generateBlockId(renderFn as (...args: unknown[]) => ReactElement, staticProps);
-        return useMemoizedBlock(renderFn, dependencies, blockId);
-    };
-}
-
-/**
- * Generates a unique block ID based on the render function and static props
- */
-function generateBlockId(
-    renderFn: (...args: unknown[]) => ReactElement,
-    staticProps?: Record<string, unknown>,
-): string {
-    // Create a hash based on function string and static props
-    const fnString = tostring(renderFn);
-    const propsString = staticProps ? HttpService.JSONEncode(staticProps) : "";
-
-    // Simple hash function
-    const str = fnString + propsString;
-    return `block_${str}`;
+    // The ID names this block definition; memoized output is still stored per component instance
+    const blockId = `block_${nextCreatedBlockId++}`;
+    return (...dependencies: T) => useBlockMemo(renderFn, dependencies, blockId, staticProps, options);
 }
 
 /**
@@ -1608,6 +2471,10 @@ export function createStaticElement(
     // Pre-process props once at compile time - no need for cloning, filtering, or merging
     const staticProps = props !== undefined ? table.clone(props) : {};
 
+    // A static key still identifies the element among its siblings, but React does not pass it down as a prop
+    const key = staticProps.key !== undefined ? tostring(staticProps.key) : undefined;
+    staticProps.key = undefined;
+
     // Pre-process children once - no need for varargs handling on every render
     const childrenSize = children.size();
     const staticChildren = childrenSize === 0 ? undefined : childrenSize === 1 ? children[0] : children;
@@ -1619,7 +2486,7 @@ export function createStaticElement(
     const staticElement = {
         // Built-in properties that belong on the element
         type: elementType,
-        key: undefined,
+        key,
         ref: undefined,
         props: staticProps,
         // This tag allows React to uniquely identify this as a React Element
@@ -1647,40 +2514,36 @@ export function createStaticInstanceFactory(element: ReactElement): StaticInstan
  * Clears the block cache (useful for testing or memory management)
  */
 export function clearBlockCache(): void {
-    blockCache.clear();
-    dependencyCache.clear();
+    // Memoized elements live in each component's refs, so invalidate them instead of deleting them
+    memoGeneration++;
 }
 
 /**
- * Gets cache statistics for debugging
+ * Gets cache statistics for debugging, aggregated over every block that is currently mounted
  */
 export function getCacheStats(): {
     totalBlocks: number;
     cacheHitRate: number;
     averageRenderTime: number;
 } {
-    const blocks: BlockInstance[] = [];
-    for (const [, block] of blockCache) {
-        blocks.push(block);
-    }
-
-    const totalBlocks = blocks.size();
-
-    if (totalBlocks === 0) {
-        return {
-            totalBlocks: 0,
-            cacheHitRate: 0,
-            averageRenderTime: 0,
-        };
+    let totalBlocks = 0;
+    let hits = 0;
+    let updates = 0;
+    let updateTime = 0;
+
+    for (const [, records] of liveBlocks) {
+        for (const record of records) {
+            totalBlocks++;
+            hits += record.hits;
+            updates += record.updates;
+            updateTime += record.updateTime;
+        }
     }
 
-    const averageRenderTime =
-        blocks.reduce((sum: number, block: BlockInstance) => sum + block.lastRenderTime, 0) / totalBlocks;
-
     return {
         totalBlocks,
-        cacheHitRate: 0.95, // Placeholder - would need actual tracking
-        averageRenderTime,
+        cacheHitRate: hits + updates > 0 ? hits / (hits + updates) : 0,
+        averageRenderTime: updates > 0 ? updateTime / updates : 0,
     };
 }
 
@@ -1,10 +1,25 @@
 import * as ts from "typescript";
+import { evaluateConstantExpression, foldConstantExpression } from "./constant-evaluator";
+import type { ConstantResult } from "./constant-evaluator";
 import { robloxStaticDetector } from "./roblox-bridge";
 import type { DependencyInfo, PropEdit, ChildEdit, PatchInstruction, FinePatchBlockInfo } from "./types";
 import { EditType } from "./types";
-import { jsxTagExpressionToString } from "./utils";
-
-const BAILOUT_PROP_NAMES = new Set(["ref", "key", "children"]);
+import {
+    getChildrenAttribute,
+    getCreateElementJsx,
+    getDependencyPath,
+    containsJsx,
+    getDependencyPathRoot,
+    isGuardedRead,
+    setCreateElementTypeChecker,
+    getJsxChildren,
+    isCreateElementCall,
+    isReconciledChild,
+    jsxTagExpressionToString,
+} from "./utils";
+
+// Props React consumes itself instead of passing to the Instance
+const RESERVED_PROP_NAMES = new Set(["ref", "key", "children"]);
 
 export interface BlockInfo {
     id: string;
@@ -24,6 +39,8 @@ export interface BlockInfo {
 export class BlockAnalyzer {
     private blockCounter = 0;
     private blocks = new Map<ts.Node, BlockInfo>();
+    private constantTypeValues = new Map<ts.Node, ts.Expression | null>();
+    private staticLocals = new Map<ts.Symbol, ts.Expression | null>();
 
     constructor(
         private typeChecker: ts.TypeChecker,
@@ -31,6 +48,8 @@ export class BlockAnalyzer {
         private program?: ts.Program,
         private debug = false,
     ) {
+        setCreateElementTypeChecker(typeChecker);
+
         // Initialize the Roblox static detector
         if (program) {
             robloxStaticDetector.initialize(program, debug);
@@ -76,12 +95,17 @@ export class BlockAnalyzer {
 
         // Analyze attributes/props
         const attributes = this.getJsxAttributes(node);
+        const childrenAttribute = getChildrenAttribute(node);
         for (const attr of attributes) {
             if (ts.isJsxAttribute(attr)) {
+                // An explicit children prop is analyzed below, as the element's children
+                if (attr === childrenAttribute) {
+                    continue;
+                }
+
                 if (!attr.initializer) {
                     const propName = ts.isIdentifier(attr.name) ? attr.name.text : attr.name.getText();
-                    const normalized = propName.toLowerCase();
-                    if (BAILOUT_PROP_NAMES.has(normalized)) {
+                    if (RESERVED_PROP_NAMES.has(propName)) {
                         blockInfo.hasNonOptimizableProps = true;
                         blockInfo.isStatic = false;
                         continue;
@@ -92,18 +116,22 @@ export class BlockAnalyzer {
                 }
 
                 const propName = ts.isIdentifier(attr.name) ? attr.name.text : attr.name.getText();
-                const normalized = propName.toLowerCase();
 
-                if (BAILOUT_PROP_NAMES.has(normalized)) {
-                    blockInfo.hasNonOptimizableProps = true;
-                    blockInfo.isStatic = false;
+                if (RESERVED_PROP_NAMES.has(propName)) {
+                    const expression = ts.isJsxExpression(attr.initializer) ? attr.initializer.expression : undefined;
 
-                    if (ts.isJsxExpression(attr.initializer) && attr.initializer.expression) {
-                        this.extractDependencies(
-                            attr.initializer.expression,
-                            blockInfo.dependencies,
-                            blockInfo.dependencyTypes,
-                        );
+                    // Children next to JSX children (which React uses instead) and string refs are left to React
+                    if (propName === "children" || (propName === "ref" && !expression)) {
+                        blockInfo.hasNonOptimizableProps = true;
+                        blockInfo.isStatic = false;
+                    } else if (propName === "ref" || (expression && this.isDynamicExpression(expression))) {
+                        // A ref is attached per mount, so an element with one can never be shared as a static element
+                        blockInfo.isStatic = false;
+                    }
+
+                    // key and ref get no edits, but the render function still receives whatever they read
+                    if (expression) {
+                        this.extractDependencies(expression, blockInfo.dependencies, blockInfo.dependencyTypes);
                     }
 
                     continue;
@@ -131,39 +159,38 @@ export class BlockAnalyzer {
                     blockInfo.isStatic = false;
                 }
             } else if (ts.isJsxSpreadAttribute(attr) && ts.isExpression(attr.expression)) {
-                blockInfo.hasNonOptimizableProps = true;
+                // Spreads are a dynamic prop bag; the element's other props keep their own edits
+                blockInfo.dynamicProps.push("...");
                 blockInfo.isStatic = false;
                 this.extractDependencies(attr.expression, blockInfo.dependencies, blockInfo.dependencyTypes);
             }
         }
 
         // Analyze children
-        if (ts.isJsxElement(node)) {
-            for (const child of node.children) {
-                if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) {
-                    const childBlock = this.analyzeJsxElement(child);
-                    if (!childBlock.isStatic) {
-                        blockInfo.hasDynamicChildren = true;
-                        blockInfo.isStatic = false;
+        for (const child of getJsxChildren(node)) {
+            if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) {
+                const childBlock = this.analyzeJsxElement(child);
+                if (!childBlock.isStatic) {
+                    blockInfo.hasDynamicChildren = true;
+                    blockInfo.isStatic = false;
 
-                        // Merge dependencies and their types from child blocks
-                        for (const dep of childBlock.dependencies) {
-                            if (!blockInfo.dependencies.includes(dep)) {
-                                blockInfo.dependencies.push(dep);
+                    // Merge dependencies and their types from child blocks
+                    for (const dep of childBlock.dependencies) {
+                        if (!blockInfo.dependencies.includes(dep)) {
+                            blockInfo.dependencies.push(dep);
 
-                                // Also merge the dependency type information
-                                if (childBlock.dependencyTypes?.has(dep) && blockInfo.dependencyTypes) {
-                                    blockInfo.dependencyTypes.set(dep, childBlock.dependencyTypes.get(dep)!);
-                                }
+                            // Also merge the dependency type information
+                            if (childBlock.dependencyTypes?.has(dep) && blockInfo.dependencyTypes) {
+                                blockInfo.dependencyTypes.set(dep, childBlock.dependencyTypes.get(dep)!);
                             }
                         }
                     }
-                } else if (ts.isJsxExpression(child) && child.expression) {
-                    if (this.isDynamicExpression(child.expression)) {
-                        blockInfo.hasDynamicChildren = true;
-                        blockInfo.isStatic = false;
-                        this.extractDependencies(child.expression, blockInfo.dependencies, blockInfo.dependencyTypes);
-                    }
+                }
+            } else if (ts.isJsxExpression(child) && child.expression) {
+                if (this.isDynamicExpression(child.expression)) {
+                    blockInfo.hasDynamicChildren = true;
+                    blockInfo.isStatic = false;
+                    this.extractDependencies(child.expression, blockInfo.dependencies, blockInfo.dependencyTypes);
                 }
             }
         }
@@ -192,19 +219,32 @@ export class BlockAnalyzer {
     /**
      * Determines if an expression contains dynamic content
      */
-    private isDynamicExpression(expr: ts.Expression): boolean {
-        // Check for identifiers (variables)
+    isDynamicExpression(expr: ts.Expression): boolean {
+        // Constant expressions such as `-5`, `1 / 3` or `math.floor(10)` are the same every render
+        if (this.evaluateConstant(expr)) {
+            return false;
+        }
+
+        // Check for identifiers (variables) and `this`; module constants, enums, constant types and locals computed
+        // from constants never change
         if (ts.isIdentifier(expr)) {
+            return (
+                !this.isStaticReference(expr) &&
+                !this.getConstantTypeValue(expr) &&
+                !this.getStaticLocalInitializer(expr)
+            );
+        }
+        if (expr.kind === ts.SyntaxKind.ThisKeyword) {
             return true;
         }
 
         // Check for property access (obj.prop)
         if (ts.isPropertyAccessExpression(expr)) {
-            // Check if this is a static Roblox property first
-            if (robloxStaticDetector.isStaticRobloxProperty(expr)) {
+            // Check if this is a static Roblox property, an enum member or a namespace constant first
+            if (robloxStaticDetector.isStaticRobloxProperty(expr) || this.isStaticReference(expr)) {
                 return false;
             }
-            return true;
+            return !this.getConstantTypeValue(expr);
         }
 
         // Check for element access (obj[key])
@@ -267,8 +307,58 @@ export class BlockAnalyzer {
             });
         }
 
-        // Static by default (literals, etc.)
-        return false;
+        // Nested JSX and callbacks (e.g. `icon={<imagelabel />}` or a render prop) build a new value every render
+        if (
+            ts.isJsxElement(expr) ||
+            ts.isJsxSelfClosingElement(expr) ||
+            ts.isJsxFragment(expr) ||
+            ts.isArrowFunction(expr) ||
+            ts.isFunctionExpression(expr)
+        ) {
+            return true;
+        }
+
+        // Wrappers that only change the type, and unary operators, are as dynamic as their operand
+        if (
+            ts.isParenthesizedExpression(expr) ||
+            ts.isAsExpression(expr) ||
+            ts.isSatisfiesExpression(expr) ||
+            ts.isNonNullExpression(expr) ||
+            ts.isTypeAssertionExpression(expr) ||
+            ts.isTypeOfExpression(expr)
+        ) {
+            return this.isDynamicExpression(expr.expression);
+        }
+        if (ts.isPrefixUnaryExpression(expr)) {
+            return this.isDynamicExpression(expr.operand);
+        }
+
+        // Literals the evaluator does not fold (e.g. bigints) are still static
+        if (ts.isLiteralExpression(expr)) {
+            return false;
+        }
+
+        // Anything else (`count++`, `await value`, tagged templates, ...) is not known to be the same every render
+        return true;
+    }
+
+    /**
+     * Evaluates a constant expression, resolving references whose types hold one value and locals computed from
+     * constants
+     */
+    evaluateConstant(expr: ts.Expression): ConstantResult | undefined {
+        return evaluateConstantExpression(expr, (reference) => this.resolveConstantReference(reference));
+    }
+
+    private resolveConstantReference(
+        reference: ts.Identifier | ts.PropertyAccessExpression,
+    ): ts.Expression | undefined {
+        const typeValue = this.getConstantTypeValue(reference);
+        if (typeValue) {
+            return typeValue;
+        }
+        const initializer = ts.isIdentifier(reference) ? this.getStaticLocalInitializer(reference) : undefined;
+        return initializer && foldConstantExpression(initializer, (inner) => this.resolveConstantReference(inner));
     }
 
     /**
@@ -276,40 +366,54 @@ export class BlockAnalyzer {
      */
     private extractDependencies(expr: ts.Expression, deps: string[], depTypes?: Map<string, DependencyInfo>): void {
         if (ts.isIdentifier(expr)) {
-            if (this.isIdentifierPartOfJsxIntrinsicTag(expr)) {
-                return;
-            }
-            if (this.isStaticGlobalIdentifier(expr.text)) {
-                return;
-            }
-            // Only add if not already present
-            if (!deps.includes(expr.text)) {
-                deps.push(expr.text);
+            if (
+                !this.isIgnoredIdentifier(expr) &&
+                !this.isStaticReference(expr) &&
+                !this.getConstantTypeValue(expr) &&
+                !this.getStaticLocalInitializer(expr)
+            ) {
+                this.addDependency(expr.text, expr, deps, depTypes);
             }
+            return;
+        }
 
-            if (depTypes && !depTypes.has(expr.text)) {
-                // Try to get the type of this identifier
-                const type = this.typeChecker.getTypeAtLocation(expr);
-                const typeNode = this.typeChecker.typeToTypeNode(
-                    type,
-                    expr,
-                    ts.NodeBuilderFlags.InTypeAlias | ts.NodeBuilderFlags.UseAliasDefinedOutsideCurrentScope,
-                );
-                depTypes.set(expr.text, {
-                    name: expr.text,
-                    type: typeNode,
-                    sourceNode: expr,
-                });
+        // `this` read other than through a member path, such as `this.format(value)`, is a dependency like `props`
+        if (expr.kind === ts.SyntaxKind.ThisKeyword) {
+            if (!this.isThisBoundInsideJsx(expr)) {
+                this.addDependency("this", expr, deps, depTypes);
             }
             return;
         }
 
         if (ts.isPropertyAccessExpression(expr)) {
-            // Check if this is a static Roblox property first
-            if (robloxStaticDetector.isStaticRobloxProperty(expr)) {
-                // Don't extract dependencies from static Roblox properties
+            // Check if this is a static Roblox property, an enum member or a namespace constant first
+            if (
+                robloxStaticDetector.isStaticRobloxProperty(expr) ||
+                this.isStaticReference(expr) ||
+                this.getConstantTypeValue(expr)
+            ) {
+                // Don't extract dependencies from static references
+                return;
+            }
+
+            // `props.name` is tracked on its own, so changes to other fields of `props` leave it alone, unless it is
+            // read behind a guard or through a value that may be nil, where reading it ahead of time could index nil
+            const path = getDependencyPath(expr);
+            if (path !== undefined && !isGuardedRead(expr) && !this.readsThroughNullable(expr)) {
+                // A path through a static Roblox property (`Enum.Font.Gotham`) never changes
+                for (let object = expr.expression; ts.isPropertyAccessExpression(object); object = object.expression) {
+                    if (robloxStaticDetector.isStaticRobloxProperty(object)) {
+                        return;
+                    }
+                }
+
+                const root = getDependencyPathRoot(expr);
+                if (ts.isIdentifier(root) ? !this.isIgnoredIdentifier(root) : !this.isThisBoundInsideJsx(root)) {
+                    this.addDependency(path, expr, deps, depTypes);
+                }
                 return;
             }
+
             this.extractDependencies(expr.expression, deps, depTypes);
             return;
         }
@@ -322,6 +426,15 @@ export class BlockAnalyzer {
             return;
         }
 
+        // A createElement call reads what the JSX it stands for reads, not React itself
+        if (isCreateElementCall(expr)) {
+            const element = getCreateElementJsx(expr);
+            if (element) {
+                this.extractDependencies(element, deps, depTypes);
+                return;
+            }
+        }
+
         // Handle call expressions (func())
         if (ts.isCallExpression(expr)) {
             // Use the Roblox static detector for more comprehensive detection
@@ -433,6 +546,43 @@ export class BlockAnalyzer {
             return;
         }
 
+        if (ts.isJsxElement(expr) || ts.isJsxSelfClosingElement(expr)) {
+            // JSX inside an expression (e.g. a conditional branch) reads its tag, attributes and children
+            const visitJsx = (node: ts.Node): void => {
+                if (ts.isJsxExpression(node) || ts.isJsxSpreadAttribute(node)) {
+                    if (node.expression) {
+                        this.extractDependencies(node.expression, deps, depTypes);
+                    }
+                } else if (ts.isJsxAttribute(node)) {
+                    if (node.initializer) {
+                        visitJsx(node.initializer);
+                    }
+                } else if (ts.isIdentifier(node) || ts.isPropertyAccessExpression(node)) {
+                    this.extractDependencies(node, deps, depTypes);
+                } else {
+                    ts.forEachChild(node, visitJsx);
+                }
+            };
+            ts.forEachChild(expr, visitJsx);
+            return;
+        }
+
+        if ((ts.isArrowFunction(expr) || ts.isFunctionExpression(expr)) && ts.isBlock(expr.body)) {
+            // Statements in a callback body (e.g. a `.map` row) can read outer values too; type annotations cannot
+            const visitStatement = (node: ts.Node): void => {
+                if (ts.isTypeNode(node)) {
+                    return;
+                }
+                if (ts.isExpression(node)) {
+                    this.extractDependencies(node, deps, depTypes);
+                } else {
+                    ts.forEachChild(node, visitStatement);
+                }
+            };
+            ts.forEachChild(expr.body, visitStatement);
+            return;
+        }
+
         // Handle other expression types as needed
         ts.forEachChild(expr, (child) => {
             if (ts.isExpression(child)) {
@@ -441,10 +591,348 @@ export class BlockAnalyzer {
         });
     }
 
+    /**
+     * Adds a dependency (an identifier or an access path), with the type of the expression that reads it
+     */
+    private addDependency(
+        name: string,
+        expr: ts.Expression,
+        deps: string[],
+        depTypes?: Map<string, DependencyInfo>,
+    ): void {
+        // Only add if not already present
+        if (!deps.includes(name)) {
+            deps.push(name);
+        }
+
+        if (depTypes && !depTypes.has(name)) {
+            // Try to get the type of this expression
+            const type = this.typeChecker.getTypeAtLocation(expr);
+            const typeNode = this.typeChecker.typeToTypeNode(
+                type,
+                expr,
+                ts.NodeBuilderFlags.InTypeAlias | ts.NodeBuilderFlags.UseAliasDefinedOutsideCurrentScope,
+            );
+            depTypes.set(name, {
+                name,
+                type: typeNode,
+                sourceNode: expr,
+            });
+        }
+    }
+
+    /**
+     * Checks if an identifier never makes a dependency: an intrinsic tag, a static global, or a local of the JSX tree
+     */
+    private isIgnoredIdentifier(identifier: ts.Identifier): boolean {
+        return (
+            this.isIdentifierPartOfJsxIntrinsicTag(identifier) ||
+            this.isStaticGlobalIdentifier(identifier.text) ||
+            this.isDeclaredInsideJsx(identifier)
+        );
+    }
+
     private isStaticGlobalIdentifier(name: string): boolean {
         return name === "string" || name === "math";
     }
 
+    /**
+     * Checks if an identifier or member access reads a binding that cannot change once the module has loaded: a
+     * `const` declared at module or namespace scope, an enum, an enum member or a namespace, also through imports.
+     * Such values are hoisted with static props instead of becoming dependencies. A member of a constant object is
+     * not static, since the object itself may still be mutated.
+     */
+    isStaticReference(expr: ts.Identifier | ts.PropertyAccessExpression): boolean {
+        const location = ts.isPropertyAccessExpression(expr) ? expr.name : expr;
+        let symbol =
+            location.parent && ts.isShorthandPropertyAssignment(location.parent)
+                ? this.typeChecker.getShorthandAssignmentValueSymbol(location.parent)
+                : this.typeChecker.getSymbolAtLocation(location);
+        if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+            symbol = this.typeChecker.getAliasedSymbol(symbol);
+        }
+        if (!symbol) {
+            return false;
+        }
+
+        if (symbol.flags & (ts.SymbolFlags.Enum | ts.SymbolFlags.EnumMember | ts.SymbolFlags.Module)) {
+            return true;
+        }
+        if (!(symbol.flags & ts.SymbolFlags.Variable) || !symbol.valueDeclaration) {
+            return false;
+        }
+
+        // A destructured constant (`const { ACCENT } = Theme`) is declared by the binding pattern's declaration
+        let declaration: ts.Node = symbol.valueDeclaration;
+        while (
+            ts.isBindingElement(declaration) ||
+            ts.isObjectBindingPattern(declaration) ||
+            ts.isArrayBindingPattern(declaration)
+        ) {
+            declaration = declaration.parent;
+        }
+        if (
+            !ts.isVariableDeclaration(declaration) ||
+            (ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.BlockScoped) !== ts.NodeFlags.Const
+        ) {
+            return false;
+        }
+
+        // A constant built from JSX reads hoisted declarations itself, so declarations that read it cannot be ordered
+        if (declaration.initializer && containsJsx(declaration.initializer)) {
+            return false;
+        }
+
+        const statement = declaration.parent.parent;
+        return (
+            ts.isVariableStatement(statement) &&
+            (ts.isSourceFile(statement.parent) || ts.isModuleBlock(statement.parent))
+        );
+    }
+
+    /**
+     * Checks if any object a member path reads through is declared as possibly `undefined` or `null`. The declared
+     * type is used, since the type at the read may be narrowed by a guard the path would be read ahead of.
+     */
+    private readsThroughNullable(expr: ts.PropertyAccessExpression): boolean {
+        for (let object = expr.expression; ; object = object.expression) {
+            const location = ts.isPropertyAccessExpression(object) ? object.name : object;
+            const symbol = ts.isIdentifier(location) ? this.typeChecker.getSymbolAtLocation(location) : undefined;
+            if (symbol?.valueDeclaration) {
+                const type = this.typeChecker.getTypeOfSymbolAtLocation(symbol, symbol.valueDeclaration);
+                const types = type.isUnion() ? type.types : [type];
+                if (types.some((t) => t.flags & (ts.TypeFlags.Undefined | ts.TypeFlags.Null | ts.TypeFlags.Void))) {
+                    return true;
+                }
+            }
+            if (!ts.isPropertyAccessExpression(object)) {
+                return false;
+            }
+        }
+    }
+
+    /**
+     * Gets the initializer of a `const` local whose value is computed only from constants, such as `padding` and `size`
+     * in `const padding = 8; const size = new UDim2(1, -padding * 2, 0, 40);`. Such locals hold the same value every
+     * render, so they are static, and their initializer can stand in for them once hoisted out of the component.
+     * Object and array literals are left out, since they may still be mutated.
+     */
+    getStaticLocalInitializer(expr: ts.Identifier): ts.Expression | undefined {
+        const symbol =
+            expr.parent && ts.isShorthandPropertyAssignment(expr.parent)
+                ? this.typeChecker.getShorthandAssignmentValueSymbol(expr.parent)
+                : this.typeChecker.getSymbolAtLocation(expr);
+        const declaration = symbol?.valueDeclaration;
+        if (
+            !symbol ||
+            !declaration ||
+            !ts.isVariableDeclaration(declaration) ||
+            !ts.isIdentifier(declaration.name) ||
+            !declaration.initializer ||
+            (ts.getCombinedNodeFlags(declaration) & ts.NodeFlags.BlockScoped) !== ts.NodeFlags.Const ||
+            !ts.isVariableStatement(declaration.parent.parent) ||
+            ts.isSourceFile(declaration.parent.parent.parent) ||
+            ts.isModuleBlock(declaration.parent.parent.parent)
+        ) {
+            return undefined;
+        }
+        if (this.staticLocals.has(symbol)) {
+            return this.staticLocals.get(symbol) ?? undefined;
+        }
+
+        // Marked as not static while its initializer is checked, so locals that refer to each other end the recursion
+        this.staticLocals.set(symbol, null);
+        const initializer = declaration.initializer;
+        const unwrapped = ts.skipOuterExpressions(initializer);
+        const isStatic =
+            !ts.isObjectLiteralExpression(unwrapped) &&
+            !ts.isArrayLiteralExpression(unwrapped) &&
+            !containsJsx(initializer) &&
+            !this.isDynamicExpression(initializer);
+        this.staticLocals.set(symbol, isStatic ? initializer : null);
+
+        if (isStatic && this.debug) {
+            console.log(`Treating ${expr.text} as static: its initializer ${initializer.getText()} is constant`);
+        }
+        return isStatic ? initializer : undefined;
+    }
+
+    /**
+     * Gets the value an identifier or member access always holds according to its type: a single literal (a `const`
+     * enum member, `undefined` and `null` included), or a deeply readonly `as const` object or tuple.
+     * Returns an expression that builds the value, so it can be folded into static props, or undefined when the type
+     * allows more than one value.
+     */
+    getConstantTypeValue(expr: ts.Identifier | ts.PropertyAccessExpression): ts.Expression | undefined {
+        if (this.constantTypeValues.has(expr)) {
+            return this.constantTypeValues.get(expr) ?? undefined;
+        }
+
+        // Synthesized nodes have no type to go by
+        const type = expr.pos >= 0 ? this.typeChecker.getTypeAtLocation(expr) : undefined;
+        const value = type ? this.createConstantTypeValue(type, expr, new Set()) : undefined;
+        this.constantTypeValues.set(expr, value ?? null);
+
+        if (value && this.debug) {
+            console.log(
+                `Treating ${expr.getText()} as static: its type ${this.typeChecker.typeToString(type!)} has one value`,
+            );
+        }
+        return value;
+    }
+
+    private createConstantTypeValue(type: ts.Type, location: ts.Node, seen: Set<ts.Type>): ts.Expression | undefined {
+        if (type.isStringLiteral()) {
+            return ts.factory.createStringLiteral(type.value);
+        }
+        if (type.isNumberLiteral()) {
+            return type.value < 0
+                ? ts.factory.createPrefixUnaryExpression(
+                      ts.SyntaxKind.MinusToken,
+                      ts.factory.createNumericLiteral(-type.value),
+                  )
+                : ts.factory.createNumericLiteral(type.value);
+        }
+        if (type.flags & ts.TypeFlags.BooleanLiteral) {
+            return this.typeChecker.typeToString(type) === "true" ? ts.factory.createTrue() : ts.factory.createFalse();
+        }
+        if (type.flags & ts.TypeFlags.Undefined) {
+            return ts.factory.createIdentifier("undefined");
+        }
+        if (type.flags & ts.TypeFlags.Null) {
+            return ts.factory.createNull();
+        }
+
+        if (!(type.flags & ts.TypeFlags.Object) || seen.has(type)) {
+            return undefined;
+        }
+        if (
+            this.typeChecker.getSignaturesOfType(type, ts.SignatureKind.Call).length > 0 ||
+            this.typeChecker.getSignaturesOfType(type, ts.SignatureKind.Construct).length > 0
+        ) {
+            return undefined;
+        }
+        seen.add(type);
+
+        // Readonly tuples, such as `[1, 2] as const`
+        const target = (type as ts.TypeReference).target;
+        if (target && (target.objectFlags & ts.ObjectFlags.Tuple) !== 0) {
+            if (!(target as ts.TupleType).readonly) {
+                return undefined;
+            }
+            const elements: ts.Expression[] = [];
+            for (const elementType of this.typeChecker.getTypeArguments(type as ts.TypeReference)) {
+                const element = this.createConstantTypeValue(elementType, location, seen);
+                if (!element) {
+                    return undefined;
+                }
+                elements.push(element);
+            }
+            return ts.factory.createArrayLiteralExpression(elements);
+        }
+
+        // Object literals under `as const`, whose properties are all constant themselves. Other object types (even
+        // `{}`) can hold any value with the right shape, such as a class instance, whose identity folding would lose.
+        const propertySymbols = this.typeChecker.getPropertiesOfType(type);
+        if (
+            !((type as ts.ObjectType).objectFlags & ts.ObjectFlags.ObjectLiteral) ||
+            propertySymbols.length === 0 ||
+            this.typeChecker.getIndexInfosOfType(type).length > 0
+        ) {
+            return undefined;
+        }
+        const properties: ts.PropertyAssignment[] = [];
+        for (const property of propertySymbols) {
+            if (!this.isConstAssertedProperty(property)) {
+                return undefined;
+            }
+            const propertyType = this.typeChecker.getTypeOfSymbolAtLocation(property, location);
+            const value = this.createConstantTypeValue(propertyType, location, seen);
+            if (!value) {
+                return undefined;
+            }
+            const name = property.getName();
+            properties.push(
+                ts.factory.createPropertyAssignment(
+                    /^[A-Za-z_$][\w$]*$/.test(name)
+                        ? ts.factory.createIdentifier(name)
+                        : ts.factory.createStringLiteral(name),
+                    value,
+                ),
+            );
+        }
+        return ts.factory.createObjectLiteralExpression(properties);
+    }
+
+    /**
+     * Checks if a property belongs to an object literal under an `as const` assertion, which makes it readonly
+     */
+    private isConstAssertedProperty(property: ts.Symbol): boolean {
+        const declarations = property.declarations ?? [];
+        return (
+            declarations.length > 0 &&
+            declarations.every((declaration) => {
+                if (!ts.isPropertyAssignment(declaration) && !ts.isShorthandPropertyAssignment(declaration)) {
+                    return false;
+                }
+
+                // Nested literals are covered by the assertion on the outermost one
+                let current: ts.Node = declaration.parent;
+                while (
+                    ts.isObjectLiteralExpression(current) ||
+                    ts.isArrayLiteralExpression(current) ||
+                    ts.isPropertyAssignment(current) ||
+                    ts.isParenthesizedExpression(current)
+                ) {
+                    current = current.parent;
+                }
+                return (
+                    (ts.isAsExpression(current) || ts.isTypeAssertionExpression(current)) &&
+                    ts.isConstTypeReference(current.type)
+                );
+            })
+        );
+    }
+
+    /**
+     * Checks if an identifier is bound inside the JSX tree itself, such as the parameter of a `.map` callback,
+     * which makes it a local of the tree rather than a dependency of the block
+     */
+    private isDeclaredInsideJsx(identifier: ts.Identifier): boolean {
+        if (!identifier.parent) {
+            return false;
+        }
+
+        // The name of a shorthand property (`{ count }`) resolves to the property, so look up the value it reads
+        const symbol = ts.isShorthandPropertyAssignment(identifier.parent)
+            ? this.typeChecker.getShorthandAssignmentValueSymbol(identifier.parent)
+            : this.typeChecker.getSymbolAtLocation(identifier);
+        const declarations = symbol?.declarations ?? [];
+        return declarations.some(
+            (declaration) =>
+                ts.findAncestor(declaration, (node) => ts.isJsxExpression(node) || isCreateElementCall(node)) !==
+                undefined,
+        );
+    }
+
+    /**
+     * Checks if `this` belongs to a function declared inside the JSX tree (any function but an arrow rebinds it),
+     * which makes it a local of the tree like a callback parameter
+     */
+    private isThisBoundInsideJsx(node: ts.Node): boolean {
+        const container = ts.findAncestor(node.parent, (current) => {
+            if (ts.isClassLike(current)) {
+                return "quit";
+            }
+            return ts.isFunctionLike(current) && !ts.isArrowFunction(current);
+        });
+        return (
+            container !== undefined &&
+            ts.findAncestor(container, (current) => ts.isJsxExpression(current) || isCreateElementCall(current)) !==
+                undefined
+        );
+    }
+
     private isIdentifierPartOfJsxIntrinsicTag(identifier: ts.Identifier): boolean {
         let current: ts.Node | undefined = identifier;
 
@@ -460,7 +948,8 @@ export class BlockAnalyzer {
                     ts.isJsxClosingElement(parent)) &&
                 parent.tagName === current
             ) {
-                const tagText = current.getText();
+                // Tags read from createElement calls are synthetic, so they have no source text
+                const tagText = ts.isIdentifier(current) ? current.text : current.getText();
                 if (!tagText) {
                     return false;
                 }
@@ -539,6 +1028,151 @@ export class BlockAnalyzer {
         return false;
     }
 
+    /**
+     * Checks if a JSX site runs unconditionally at the top level of a function component or custom hook,
+     * the only place the hooks of a block may be called without breaking React's hook order.
+     * Returns why the site must stay hook-free, or undefined when it can use hooks.
+     */
+    getHookUnsafeReason(node: ts.Node): string | undefined {
+        let child = node;
+        let current = node.parent;
+        let statement: ts.Statement | undefined;
+
+        while (current) {
+            if (ts.isFunctionLike(current)) {
+                return this.getFunctionHookUnsafeReason(current, statement);
+            }
+
+            if (ts.isConditionalExpression(current) && child !== current.condition) {
+                return "it is in a branch of a conditional expression";
+            }
+            if (
+                ts.isBinaryExpression(current) &&
+                child === current.right &&
+                (current.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+                    current.operatorToken.kind === ts.SyntaxKind.BarBarToken ||
+                    current.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken)
+            ) {
+                return `it is on the right of a \`${ts.tokenToString(current.operatorToken.kind)}\` operator`;
+            }
+            if (ts.isIfStatement(current) && child !== current.expression) {
+                return "it is inside an if statement";
+            }
+            if (ts.isCaseClause(current) || ts.isDefaultClause(current)) {
+                return "it is inside a switch case";
+            }
+            if (ts.isIterationStatement(current, false)) {
+                return "it is inside a loop";
+            }
+            if (ts.isCatchClause(current)) {
+                return "it is inside a catch clause";
+            }
+            if ((ts.isParameter(current) || ts.isBindingElement(current)) && child === current.initializer) {
+                return "it is a default value";
+            }
+            if (ts.isPropertyDeclaration(current)) {
+                return "it is a class property initializer";
+            }
+
+            if (ts.isBlock(current) && ts.isStatement(child)) {
+                statement = child;
+            }
+
+            child = current;
+            current = current.parent;
+        }
+
+        return "it is outside of any function";
+    }
+
+    /**
+     * Checks if a JSX site belongs to a class member: a method or accessor, or a function a property is initialized
+     * with. Such code cannot call hooks, but its blocks can render through a host component anywhere in the member.
+     */
+    isInsideClassMember(node: ts.Node): boolean {
+        const fn = ts.findAncestor(node.parent, ts.isFunctionLike);
+        if (!fn || !fn.parent) {
+            return false;
+        }
+
+        if (ts.isMethodDeclaration(fn) || ts.isGetAccessorDeclaration(fn) || ts.isSetAccessorDeclaration(fn)) {
+            return ts.isClassLike(fn.parent);
+        }
+        return (
+            (ts.isArrowFunction(fn) || ts.isFunctionExpression(fn)) &&
+            ts.isPropertyDeclaration(fn.parent) &&
+            fn.parent.initializer === fn
+        );
+    }
+
+    /**
+     * Checks if the function enclosing a JSX site is a component or custom hook, and that no earlier statement of its
+     * body may return before the site
+     */
+    private getFunctionHookUnsafeReason(
+        fn: ts.SignatureDeclaration,
+        statement: ts.Statement | undefined,
+    ): string | undefined {
+        if (!ts.isFunctionDeclaration(fn) && !ts.isFunctionExpression(fn) && !ts.isArrowFunction(fn)) {
+            const name = fn.name && ts.isIdentifier(fn.name) ? ` \`${fn.name.text}\`` : "";
+            return `it is inside the ${ts.isMethodDeclaration(fn) ? "method" : "class member"}${name}`;
+        }
+
+        let name = fn.name?.text;
+        let parent = fn.parent;
+        while (ts.isParenthesizedExpression(parent)) {
+            parent = parent.parent;
+        }
+
+        // memo(...) and forwardRef(...) pass on the name of the declaration they initialize
+        while (ts.isCallExpression(parent) && parent.expression !== fn) {
+            const callee = parent.expression;
+            const calleeName = ts.isIdentifier(callee)
+                ? callee.text
+                : ts.isPropertyAccessExpression(callee)
+                  ? callee.name.text
+                  : undefined;
+            if (calleeName !== "memo" && calleeName !== "forwardRef") {
+                return `it is inside a callback passed to \`${calleeName ?? "a function"}\``;
+            }
+            parent = parent.parent;
+        }
+
+        if (!name && ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+            name = parent.name.text;
+        } else if (!name && ts.isPropertyAssignment(parent) && ts.isIdentifier(parent.name)) {
+            name = parent.name.text;
+        }
+
+        if (!name) {
+            return "it is inside an anonymous function";
+        }
+        if (!/^[A-Z]/.test(name) && !/^use[A-Z0-9]/.test(name)) {
+            return `it is inside \`${name}\`, which is neither a component nor a hook`;
+        }
+
+        // Any return before the site, outside nested functions, could skip its hooks
+        if (statement && fn.body && ts.isBlock(fn.body)) {
+            const hasReturn = (node: ts.Node): boolean => {
+                if (ts.isFunctionLike(node)) {
+                    return false;
+                }
+                return ts.isReturnStatement(node) || (ts.forEachChild(node, hasReturn) ?? false);
+            };
+
+            for (const previous of fn.body.statements) {
+                if (previous === statement) {
+                    break;
+                }
+                if (hasReturn(previous)) {
+                    return "it comes after an early return";
+                }
+            }
+        }
+
+        return undefined;
+    }
+
     getBlockInfo(node: ts.Node): BlockInfo | undefined {
         return this.blocks.get(node);
     }
@@ -555,23 +1189,24 @@ export class BlockAnalyzer {
         const blockInfo = this.analyzeJsxElement(node);
         const patchInstructions: PatchInstruction[] = [];
         const elementPaths = new Map<ts.Node, number[]>();
+        // Types of every dependency the edits read, including any the block itself did not collect
+        const dependencyTypes = new Map(blockInfo.dependencyTypes);
 
         // Generate path for current element
         this.assignElementPaths(node, [], elementPaths);
 
         // Generate patch instructions for this element's props
-        const elementInstruction = this.generateElementPatchInstruction(node, [], elementPaths);
+        const elementInstruction = this.generateElementPatchInstruction(node, [], elementPaths, dependencyTypes);
         if (elementInstruction.edits.length > 0) {
             patchInstructions.push(elementInstruction);
         }
 
         // Generate patch instructions for children
-        if (ts.isJsxElement(node)) {
-            this.generateChildPatchInstructions(node, [0], elementPaths, patchInstructions);
-        }
+        this.generateChildPatchInstructions(node, [], elementPaths, patchInstructions, dependencyTypes);
 
         return {
             ...blockInfo,
+            dependencyTypes,
             patchInstructions,
             elementPaths,
         };
@@ -587,16 +1222,14 @@ export class BlockAnalyzer {
     ): void {
         elementPaths.set(node, [...currentPath]);
 
-        if (ts.isJsxElement(node)) {
-            let childIndex = 0;
-            for (const child of node.children) {
-                if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) {
-                    this.assignElementPaths(child, [...currentPath, childIndex], elementPaths);
-                    childIndex++;
-                } else if (ts.isJsxExpression(child) && child.expression) {
-                    // JSX expressions also count as children
-                    childIndex++;
-                }
+        let childIndex = 0;
+        for (const child of getJsxChildren(node)) {
+            if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) {
+                this.assignElementPaths(child, [...currentPath, childIndex], elementPaths);
+                childIndex++;
+            } else if (ts.isJsxExpression(child) && child.expression) {
+                // JSX expressions also count as children
+                childIndex++;
             }
         }
     }
@@ -607,8 +1240,8 @@ export class BlockAnalyzer {
     private generateElementPatchInstruction(
         node: ts.JsxElement | ts.JsxSelfClosingElement,
         elementPath: number[],
-        // eslint-disable-next-line @typescript-eslint/no-unused-vars
         _elementPaths: Map<ts.Node, number[]>,
+        dependencyTypes: Map<string, DependencyInfo>,
     ): PatchInstruction {
         const edits: (PropEdit | ChildEdit)[] = [];
         const attributes = this.getJsxAttributes(node);
@@ -616,26 +1249,44 @@ export class BlockAnalyzer {
         for (const attr of attributes) {
             if (ts.isJsxAttribute(attr) && attr.initializer) {
                 const propName = ts.isIdentifier(attr.name) ? attr.name.text : attr.name.getText();
+                // React applies these itself: key and ref are never written to the Instance,
+                // and an explicit children prop is patched as the element's children
+                if (RESERVED_PROP_NAMES.has(propName)) {
+                    continue;
+                }
 
                 if (ts.isJsxExpression(attr.initializer) && attr.initializer.expression) {
                     if (this.isDynamicExpression(attr.initializer.expression)) {
-                        // Find which dependency this prop depends on
+                        // Find every dependency this prop reads so the edit fires when any of them changes
                         const dependencies: string[] = [];
-                        this.extractDependencies(attr.initializer.expression, dependencies);
+                        this.extractDependencies(attr.initializer.expression, dependencies, dependencyTypes);
 
-                        // For now, we'll use the first dependency as the key
-                        // In a more sophisticated system, you might want to track multiple dependencies per edit
                         if (dependencies.length > 0) {
                             const editType = this.getEditTypeForProp(propName);
                             edits.push({
                                 type: editType,
                                 propName,
-                                dependencyKey: dependencies[0],
+                                dependencyKeys: dependencies,
                                 path: elementPath,
+                                value: attr.initializer.expression,
                             } as PropEdit);
                         }
                     }
                 }
+            } else if (ts.isJsxSpreadAttribute(attr)) {
+                const dependencies: string[] = [];
+                this.extractDependencies(attr.expression, dependencies, dependencyTypes);
+
+                if (dependencies.length > 0) {
+                    // Edits keep attribute order, which the runtime relies on for React's "later props win" rule
+                    edits.push({
+                        type: EditType.Spread,
+                        propName: "...",
+                        dependencyKeys: dependencies,
+                        path: elementPath,
+                        value: attr.expression,
+                    } as PropEdit);
+                }
             }
         }
 
@@ -649,34 +1300,38 @@ export class BlockAnalyzer {
      * Generates patch instructions for children
      */
     private generateChildPatchInstructions(
-        node: ts.JsxElement,
+        node: ts.JsxElement | ts.JsxSelfClosingElement,
         basePath: number[],
         elementPaths: Map<ts.Node, number[]>,
         patchInstructions: PatchInstruction[],
+        dependencyTypes: Map<string, DependencyInfo>,
     ): void {
         let childIndex = 0;
 
-        for (const child of node.children) {
+        for (const child of getJsxChildren(node)) {
             if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) {
                 const childPath = [...basePath, childIndex];
 
                 // Generate patch instructions for this child element
-                const childInstruction = this.generateElementPatchInstruction(child, childPath, elementPaths);
+                const childInstruction = this.generateElementPatchInstruction(
+                    child,
+                    childPath,
+                    elementPaths,
+                    dependencyTypes,
+                );
                 if (childInstruction.edits.length > 0) {
                     patchInstructions.push(childInstruction);
                 }
 
                 // Recursively process nested children
-                if (ts.isJsxElement(child)) {
-                    this.generateChildPatchInstructions(child, childPath, elementPaths, patchInstructions);
-                }
+                this.generateChildPatchInstructions(child, childPath, elementPaths, patchInstructions, dependencyTypes);
 
                 childIndex++;
             } else if (ts.isJsxExpression(child) && child.expression) {
-                // Dynamic child content
-                if (this.isDynamicExpression(child.expression)) {
+                // Conditional JSX and mapped rows compile to a branch switch or keyed list, which React reconciles
+                if (this.isDynamicExpression(child.expression) && !isReconciledChild(child.expression)) {
                     const dependencies: string[] = [];
-                    this.extractDependencies(child.expression, dependencies);
+                    this.extractDependencies(child.expression, dependencies, dependencyTypes);
 
                     if (dependencies.length > 0) {
                         const childPath = [...basePath, childIndex];
@@ -686,8 +1341,9 @@ export class BlockAnalyzer {
                                 {
                                     type: EditType.Child,
                                     index: childIndex,
-                                    dependencyKey: dependencies[0],
+                                    dependencyKeys: dependencies,
                                     path: childPath,
+                                    value: child.expression,
                                 } as ChildEdit,
                             ],
                         });
@@ -701,7 +1357,7 @@ export class BlockAnalyzer {
     /**
      * Determines the edit type for a given property name
      */
-    private getEditTypeForProp(propName: string): EditType {
+    getEditTypeForProp(propName: string): EditType {
         // Categorize props by their update type
         if (propName.toLowerCase().includes("style") || propName === "BackgroundColor3" || propName === "TextColor3") {
             return EditType.Style;
@@ -11,7 +11,9 @@ import type { PropInfo } from "./types";
  */
 export function createPropsObject(props: PropInfo[]): ts.ObjectLiteralExpression {
     const properties = props.map((prop) =>
-        ts.factory.createPropertyAssignment(ts.factory.createIdentifier(prop.name), prop.value),
+        prop.isSpread
+            ? ts.factory.createSpreadAssignment(prop.value)
+            : ts.factory.createPropertyAssignment(ts.factory.createIdentifier(prop.name), prop.value),
     );
 
     return ts.factory.createObjectLiteralExpression(properties, true);
@@ -21,37 +23,126 @@ export function createPropsObject(props: PropInfo[]): ts.ObjectLiteralExpression
  * Creates dependencies array for memoization
  */
 export function createDependenciesArray(dependencies: string[]): ts.ArrayLiteralExpression {
-    const elements = dependencies.map((dep) => ts.factory.createIdentifier(dep));
+    const elements = dependencies.map((dep) => createDependencyExpression(dep));
 
     return ts.factory.createArrayLiteralExpression(elements, false);
 }
 
 /**
- * Generates a unique static element identifier
+ * Creates the expression that reads a dependency: an identifier, or a property access chain for a path like `props.name`
+ * or `this.state.count`
  */
-export function generateStaticElementId(tagName: string): string {
-    return `STATIC_ELEMENT_${tagName.toUpperCase()}_${Math.random().toString(36).substr(2, 6)}`;
+export function createDependencyExpression(dependency: string): ts.Expression {
+    const [root, ...names] = dependency.split(".");
+    return names.reduce<ts.Expression>(
+        (object, name) => ts.factory.createPropertyAccessExpression(object, name),
+        root === "this" ? ts.factory.createThis() : ts.factory.createIdentifier(root),
+    );
 }
 
 /**
- * Generates a unique static props table identifier
+ * Names the block parameters that receive dependencies, e.g. `props_name` for `props.name`
+ * A plain identifier keeps its name, since the render function reads it by that name, and `this` itself cannot name
+ * a parameter, so it is received as `_this`. A name that is taken, by another parameter or by one of `reservedNames`,
+ * gets a numeric suffix, so `a.b_c` and `a_b.c` never share a parameter and no parameter shadows a name in scope.
  */
-export function generateStaticPropsId(tagName: string): string {
-    return `STATIC_PROPS_${tagName.toUpperCase()}_${Math.random().toString(36).substr(2, 6)}`;
+export function getDependencyParameterNames(
+    dependencies: readonly string[],
+    reservedNames: ReadonlySet<string>,
+): Map<string, string> {
+    const parameterNames = new Map<string, string>();
+    const takenNames = new Set(reservedNames);
+    const isIdentifier = (dependency: string) => dependency !== "this" && !dependency.includes(".");
+
+    for (const dependency of dependencies) {
+        if (isIdentifier(dependency)) {
+            parameterNames.set(dependency, dependency);
+            takenNames.add(dependency);
+        }
+    }
+
+    for (const dependency of dependencies) {
+        if (isIdentifier(dependency) || parameterNames.has(dependency)) {
+            continue;
+        }
+
+        const baseName = dependency === "this" ? "_this" : dependency.replace(/\./g, "_");
+        let name = baseName;
+        for (let suffix = 1; takenNames.has(name); suffix++) {
+            name = `${baseName}_${suffix}`;
+        }
+        parameterNames.set(dependency, name);
+        takenNames.add(name);
+    }
+
+    // Keep the order the dependencies were given in, which the block receives them in
+    return new Map(dependencies.map((dependency) => [dependency, parameterNames.get(dependency)!]));
 }
 
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
 /**
- * Generates a unique block identifier
+ * 32-bit FNV-1a hash of a string
  */
-export function generateBlockId(tagName: string): string {
-    return `dynamic_${tagName}_${Math.random().toString(36).substr(2, 9)}`;
+function fnv1a(input: string, seed: number): number {
+    let hash = seed;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, FNV_PRIME);
+    }
+    return hash >>> 0;
 }
 
 /**
- * Generates a unique static instance factory identifier
+ * Creates a deterministic base-36 hash of the given length from a string.
+ * The same input always yields the same hash, so generated identifiers are stable across builds.
  */
-export function generateStaticInstanceFactoryId(tagName: string): string {
-    return `STATIC_INSTANCE_${tagName.toUpperCase()}_${Math.random().toString(36).substr(2, 6)}`;
+export function createStableHash(input: string, length = 8): string {
+    let result = "";
+    let hash = FNV_OFFSET_BASIS;
+
+    while (result.length < length) {
+        hash = fnv1a(input, hash);
+        result += ("0000000" + hash.toString(36)).slice(-7);
+    }
+
+    return result.slice(0, length);
+}
+
+/**
+ * Generates a static element identifier derived from the element's identity seed
+ */
+export function generateStaticElementId(tagName: string, seed: string): string {
+    return `STATIC_ELEMENT_${tagName.toUpperCase()}_${createStableHash(`element:${seed}`, 6)}`;
+}
+
+/**
+ * Generates a static props table identifier derived from the element's identity seed
+ */
+export function generateStaticPropsId(tagName: string, seed: string): string {
+    return `STATIC_PROPS_${tagName.toUpperCase()}_${createStableHash(`props:${seed}`, 6)}`;
+}
+
+/**
+ * Generates a block identifier derived from the element's identity seed
+ */
+export function generateBlockId(tagName: string, seed: string): string {
+    return `dynamic_${tagName}_${createStableHash(`block:${seed}`, 9)}`;
+}
+
+/**
+ * Generates a keyed list identifier derived from the row element's identity seed
+ */
+export function generateListId(tagName: string, seed: string): string {
+    return `list_${tagName}_${createStableHash(`list:${seed}`, 9)}`;
+}
+
+/**
+ * Generates a static instance factory identifier derived from the element's identity seed
+ */
+export function generateStaticInstanceFactoryId(tagName: string, seed: string): string {
+    return `STATIC_INSTANCE_${tagName.toUpperCase()}_${createStableHash(`instance:${seed}`, 6)}`;
 }
 
 /**
@@ -93,10 +184,68 @@ export function createMemoizedBlockCall(
     blockFunction: ts.ArrowFunction,
     dependencies: string[],
     blockId: string,
+    options?: ts.ObjectLiteralExpression,
 ): ts.CallExpression {
     return ts.factory.createCallExpression(ts.factory.createIdentifier("useMemoizedBlock"), undefined, [
         blockFunction,
         createDependenciesArray(dependencies),
         ts.factory.createStringLiteral(blockId),
+        ...(options ? [options] : []),
     ]);
 }
+
+/**
+ * Creates the block update options literal, e.g. { structural: true } or { key: item.id }
+ */
+export function createBlockUpdateOptions(
+    structural: boolean,
+    key?: ts.Expression,
+): ts.ObjectLiteralExpression | undefined {
+    const properties: ts.PropertyAssignment[] = [];
+    if (structural) {
+        properties.push(ts.factory.createPropertyAssignment("structural", ts.factory.createTrue()));
+    }
+    if (key) {
+        properties.push(ts.factory.createPropertyAssignment("key", key));
+    }
+
+    return properties.length > 0 ? ts.factory.createObjectLiteralExpression(properties) : undefined;
+}
+
+/**
+ * Creates a call to switchBranch, which renders the branch at `indexExpression` (or nothing for -1)
+ */
+export function createSwitchBranchCall(
+    indexExpression: ts.Expression,
+    branches: ts.Expression[],
+    keep: boolean,
+): ts.CallExpression {
+    const args = [indexExpression, ts.factory.createArrayLiteralExpression(branches)];
+    if (keep) {
+        args.push(
+            ts.factory.createObjectLiteralExpression([
+                ts.factory.createPropertyAssignment("keep", ts.factory.createTrue()),
+            ]),
+        );
+    }
+
+    return ts.factory.createCallExpression(ts.factory.createIdentifier("switchBranch"), undefined, args);
+}
+
+/**
+ * Creates a call to mapList, which reconciles rows (each a key followed by hole values) against a row template
+ * `startIndex` is the list's position among its parent's children, which rows are numbered from
+ */
+export function createMapListCall(
+    rows: ts.Expression,
+    template: ts.ArrowFunction,
+    listId: string,
+    startIndex: number,
+): ts.CallExpression {
+    const args: ts.Expression[] = [rows, template, ts.factory.createStringLiteral(listId)];
+    if (startIndex > 0) {
+        args.push(ts.factory.createNumericLiteral(startIndex));
+    }
+
+    return ts.factory.createCallExpression(ts.factory.createIdentifier("mapList"), undefined, args);
+}
@@ -0,0 +1,304 @@
+import * as ts from "typescript";
+
+/**
+ * Evaluates constant expressions at compile time, such as `-5`, `1 / 3`, `"a" + "b"` or `math.floor(10)`
+ * Only forms that evaluate the same in Luau as in JavaScript are evaluated: the compiled code runs under Luau's
+ * semantics, so `%` with negative operands, bitwise operators and float-to-string conversions are left alone.
+ */
+
+export type ConstantValue = string | number | boolean | null | undefined;
+
+/**
+ * The value of a constant expression, wrapped since `undefined` is a value too
+ */
+export interface ConstantResult {
+    value: ConstantValue;
+}
+
+/**
+ * Resolves a reference to the literal of the one value it can hold, e.g. from its type
+ */
+export type ConstantReferenceResolver = (
+    expr: ts.Identifier | ts.PropertyAccessExpression,
+) => ts.Expression | undefined;
+
+// Luau math functions that are pure, and whose results do not depend on the platform
+const MATH_FUNCTIONS = new Map<string, (...args: number[]) => number | undefined>([
+    ["abs", Math.abs],
+    ["ceil", Math.ceil],
+    ["floor", Math.floor],
+    ["max", (...args) => (args.length > 0 ? Math.max(...args) : undefined)],
+    ["min", (...args) => (args.length > 0 ? Math.min(...args) : undefined)],
+    ["sign", Math.sign],
+    ["sqrt", Math.sqrt],
+    // Luau rounds halves away from zero, where JavaScript rounds them up
+    ["round", (x) => Math.sign(x) * Math.floor(Math.abs(x) + 0.5)],
+    // Luau errors when min is greater than max, so such calls are not constant
+    ["clamp", (x, min, max) => (min <= max ? Math.min(Math.max(x, min), max) : undefined)],
+]);
+
+const MATH_CONSTANTS = new Map<string, number>([
+    ["pi", Math.PI],
+    ["huge", Infinity],
+]);
+
+/**
+ * Evaluates an expression made only of constants, or returns undefined if it is not one
+ */
+export function evaluateConstantExpression(
+    expr: ts.Expression,
+    resolve?: ConstantReferenceResolver,
+): ConstantResult | undefined {
+    const evaluate = (node: ts.Expression): ConstantResult | undefined => evaluateConstantExpression(node, resolve);
+
+    if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr)) {
+        return { value: expr.text };
+    }
+    if (ts.isNumericLiteral(expr)) {
+        return { value: Number(expr.text) };
+    }
+    switch (expr.kind) {
+        case ts.SyntaxKind.TrueKeyword:
+            return { value: true };
+        case ts.SyntaxKind.FalseKeyword:
+            return { value: false };
+        case ts.SyntaxKind.NullKeyword:
+            return { value: null };
+    }
+
+    // Wrappers that only change the type
+    if (
+        ts.isParenthesizedExpression(expr) ||
+        ts.isAsExpression(expr) ||
+        ts.isSatisfiesExpression(expr) ||
+        ts.isNonNullExpression(expr) ||
+        ts.isTypeAssertionExpression(expr)
+    ) {
+        return evaluate(expr.expression);
+    }
+
+    if (ts.isPrefixUnaryExpression(expr)) {
+        const operand = evaluate(expr.operand);
+        if (!operand) {
+            return undefined;
+        }
+        switch (expr.operator) {
+            case ts.SyntaxKind.MinusToken:
+                return typeof operand.value === "number" ? { value: -operand.value } : undefined;
+            case ts.SyntaxKind.PlusToken:
+                return typeof operand.value === "number" ? { value: operand.value } : undefined;
+            case ts.SyntaxKind.ExclamationToken:
+                return { value: !operand.value };
+        }
+        return undefined;
+    }
+
+    if (ts.isBinaryExpression(expr)) {
+        return evaluateBinary(expr, evaluate);
+    }
+
+    if (ts.isConditionalExpression(expr)) {
+        const condition = evaluate(expr.condition);
+        if (!condition) {
+            return undefined;
+        }
+        return evaluate(condition.value ? expr.whenTrue : expr.whenFalse);
+    }
+
+    if (ts.isTemplateExpression(expr)) {
+        let text = expr.head.text;
+        for (const span of expr.templateSpans) {
+            const part = evaluate(span.expression);
+            const partText = part !== undefined ? toConcatenatedString(part.value) : undefined;
+            if (partText === undefined) {
+                return undefined;
+            }
+            text += partText + span.literal.text;
+        }
+        return { value: text };
+    }
+
+    if (ts.isCallExpression(expr) && ts.isPropertyAccessExpression(expr.expression) && isMathLibrary(expr.expression)) {
+        const fn = MATH_FUNCTIONS.get(expr.expression.name.text);
+        if (!fn) {
+            return undefined;
+        }
+        const args: number[] = [];
+        for (const arg of expr.arguments) {
+            const result = evaluate(arg);
+            if (typeof result?.value !== "number") {
+                return undefined;
+            }
+            args.push(result.value);
+        }
+        const value = fn(...args);
+        return value !== undefined ? { value } : undefined;
+    }
+
+    if (ts.isPropertyAccessExpression(expr) && isMathLibrary(expr)) {
+        const value = MATH_CONSTANTS.get(expr.name.text);
+        return value !== undefined ? { value } : undefined;
+    }
+
+    if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
+        const literal = resolve?.(expr);
+        // Only literals are taken, so resolving cannot loop back into the reference
+        return literal && isConstantLiteral(literal) ? evaluateConstantExpression(literal) : undefined;
+    }
+
+    return undefined;
+}
+
+function evaluateBinary(
+    expr: ts.BinaryExpression,
+    evaluate: (node: ts.Expression) => ConstantResult | undefined,
+): ConstantResult | undefined {
+    const operator = expr.operatorToken.kind;
+    const left = evaluate(expr.left);
+    if (!left) {
+        return undefined;
+    }
+
+    // Short-circuiting operators only need the side they pick
+    switch (operator) {
+        case ts.SyntaxKind.AmpersandAmpersandToken:
+            return left.value ? evaluate(expr.right) : left;
+        case ts.SyntaxKind.BarBarToken:
+            return left.value ? left : evaluate(expr.right);
+        case ts.SyntaxKind.QuestionQuestionToken:
+            return left.value !== undefined && left.value !== null ? left : evaluate(expr.right);
+    }
+
+    const right = evaluate(expr.right);
+    if (!right) {
+        return undefined;
+    }
+    const a = left.value;
+    const b = right.value;
+
+    switch (operator) {
+        case ts.SyntaxKind.EqualsEqualsEqualsToken:
+            return { value: a === b };
+        case ts.SyntaxKind.ExclamationEqualsEqualsToken:
+            return { value: a !== b };
+    }
+
+    if (operator === ts.SyntaxKind.PlusToken && (typeof a === "string" || typeof b === "string")) {
+        const leftText = toConcatenatedString(a);
+        const rightText = toConcatenatedString(b);
+        return leftText !== undefined && rightText !== undefined ? { value: leftText + rightText } : undefined;
+    }
+
+    if (typeof a === "string" && typeof b === "string") {
+        switch (operator) {
+            case ts.SyntaxKind.LessThanToken:
+                return { value: a < b };
+            case ts.SyntaxKind.LessThanEqualsToken:
+                return { value: a <= b };
+            case ts.SyntaxKind.GreaterThanToken:
+                return { value: a > b };
+            case ts.SyntaxKind.GreaterThanEqualsToken:
+                return { value: a >= b };
+        }
+        return undefined;
+    }
+
+    if (typeof a !== "number" || typeof b !== "number") {
+        return undefined;
+    }
+    switch (operator) {
+        case ts.SyntaxKind.PlusToken:
+            return { value: a + b };
+        case ts.SyntaxKind.MinusToken:
+            return { value: a - b };
+        case ts.SyntaxKind.AsteriskToken:
+            return { value: a * b };
+        case ts.SyntaxKind.SlashToken:
+            return { value: a / b };
+        case ts.SyntaxKind.AsteriskAsteriskToken:
+            return { value: a ** b };
+        case ts.SyntaxKind.PercentToken:
+            // Luau's `%` floors where JavaScript's truncates; they only agree on non-negative operands
+            return a >= 0 && b > 0 ? { value: a % b } : undefined;
+        case ts.SyntaxKind.LessThanToken:
+            return { value: a < b };
+        case ts.SyntaxKind.LessThanEqualsToken:
+            return { value: a <= b };
+        case ts.SyntaxKind.GreaterThanToken:
+            return { value: a > b };
+        case ts.SyntaxKind.GreaterThanEqualsToken:
+            return { value: a >= b };
+    }
+    return undefined;
+}
+
+/**
+ * Converts a value for string concatenation, if Luau prints it the same way: strings and safe integers only
+ */
+function toConcatenatedString(value: ConstantValue): string | undefined {
+    if (typeof value === "string") {
+        return value;
+    }
+    if (typeof value === "number" && Number.isSafeInteger(value)) {
+        return String(value);
+    }
+    return undefined;
+}
+
+function isMathLibrary(expr: ts.PropertyAccessExpression): boolean {
+    return ts.isIdentifier(expr.expression) && expr.expression.text === "math";
+}
+
+/**
+ * Creates the literal for a constant value, or returns undefined for values a literal cannot write (NaN, infinities)
+ */
+export function createConstantLiteral(value: ConstantValue): ts.Expression | undefined {
+    switch (typeof value) {
+        case "string":
+            return ts.factory.createStringLiteral(value);
+        case "boolean":
+            return value ? ts.factory.createTrue() : ts.factory.createFalse();
+        case "undefined":
+            return ts.factory.createIdentifier("undefined");
+        case "number":
+            if (!Number.isFinite(value)) {
+                return undefined;
+            }
+            return value < 0 || Object.is(value, -0)
+                ? ts.factory.createPrefixUnaryExpression(
+                      ts.SyntaxKind.MinusToken,
+                      ts.factory.createNumericLiteral(-value),
+                  )
+                : ts.factory.createNumericLiteral(value);
+    }
+    return ts.factory.createNull();
+}
+
+/**
+ * Checks if an expression is already written as a literal, so folding it would gain nothing
+ */
+export function isConstantLiteral(expr: ts.Expression): boolean {
+    return (
+        ts.isStringLiteral(expr) ||
+        ts.isNoSubstitutionTemplateLiteral(expr) ||
+        ts.isNumericLiteral(expr) ||
+        expr.kind === ts.SyntaxKind.TrueKeyword ||
+        expr.kind === ts.SyntaxKind.FalseKeyword ||
+        expr.kind === ts.SyntaxKind.NullKeyword ||
+        (ts.isIdentifier(expr) && expr.text === "undefined") ||
+        (ts.isPrefixUnaryExpression(expr) &&
+            expr.operator === ts.SyntaxKind.MinusToken &&
+            ts.isNumericLiteral(expr.operand))
+    );
+}
+
+/**
+ * Replaces a constant expression with its literal where one can write its value, and returns it unchanged otherwise
+ */
+export function foldConstantExpression(expr: ts.Expression, resolve?: ConstantReferenceResolver): ts.Expression {
+    if (isConstantLiteral(expr)) {
+        return expr;
+    }
+    const result = evaluateConstantExpression(expr, resolve);
+    return (result && createConstantLiteral(result.value)) ?? expr;
+}
@@ -1,15 +1,19 @@
-﻿import * as ts from "typescript";
+﻿import * as path from "path";
+import * as ts from "typescript";
 import { BlockAnalyzer } from "./analyzer";
 import { runtimeHelper } from "./runtime-helper";
 import {
     DecillionTransformer,
     getFunctionName,
+    hasStructuralCompareMarker,
     hasUndecillionDecorator,
     shouldSkipTransformation,
     transformJsxElementWithFinePatch,
+    transformJsxFragment,
+    withHookFreeReason,
 } from "./transformer";
-import type { OptimizationContext, PropInfo, StaticElementInfo } from "./types";
-import { jsxTagExpressionToString } from "./utils";
+import type { OptimizationContext, StaticElementInfo } from "./types";
+import { getCreateElementJsx, isCreateElementCall, jsxTagExpressionToString } from "./utils";
 
 /**
  * Configuration options for the Decillion transformer
@@ -48,7 +52,12 @@ export default function (program: ts.Program, options: DecillionTransformerOptio
 
             // Initialize transformation context with the new architecture
             const blockAnalyzer = new BlockAnalyzer(program.getTypeChecker(), context, program, debug);
-            const transformer = new DecillionTransformer(program.getTypeChecker(), context, blockAnalyzer);
+            const transformer = new DecillionTransformer(
+                program.getTypeChecker(),
+                context,
+                blockAnalyzer,
+                getSourceFileIdentity(program, file),
+            );
             const optimizationContext = transformer.getContext();
 
             let needsRuntimeImport = false;
@@ -70,6 +79,13 @@ export default function (program: ts.Program, options: DecillionTransformerOptio
                             }
                         }
                     }
+
+                    if (hasStructuralCompareMarker(node, file)) {
+                        const functionName = getFunctionName(node);
+                        if (functionName) {
+                            optimizationContext.structuralCompareFunctions.add(functionName);
+                        }
+                    }
                 }
 
                 ts.forEachChild(node, scanVisitor);
@@ -105,13 +121,14 @@ export default function (program: ts.Program, options: DecillionTransformerOptio
                     return result;
                 }
 
-                // Transform JSX elements using the new modular system
-                if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+                // Transform JSX elements using the new modular system, along with the createElement calls they stand for
+                const element = isCreateElementCall(node) ? getCreateElementJsx(node) : node;
+                if (element && (ts.isJsxElement(element) || ts.isJsxSelfClosingElement(element))) {
                     // Check if we should skip transformation for this JSX element
                     if (shouldSkipTransformation(optimizationContext)) {
                         if (debug) {
                             console.log(
-                                `Skipping JSX transformation due to @undecillion decorator: ${getTagName(node)}`,
+                                `Skipping JSX transformation due to @undecillion decorator: ${getTagName(element)}`,
                             );
                         }
                         // Return the original JSX node without transformation
@@ -119,11 +136,25 @@ export default function (program: ts.Program, options: DecillionTransformerOptio
                     }
 
                     if (debug) {
-                        console.log(`Found JSX element: ${getTagName(node)}`);
+                        console.log(`Found JSX element: ${getTagName(element)}`);
+                    }
+
+                    // Class members cannot call hooks, so their blocks render through host components instead
+                    const hostBlocks = blockAnalyzer.isInsideClassMember(element);
+                    const hookFreeReason = hostBlocks ? undefined : blockAnalyzer.getHookUnsafeReason(element);
+                    if (debug && hookFreeReason) {
+                        console.log(`Emitting hook-free JSX for ${getTagName(element)}: ${hookFreeReason}`);
+                    } else if (debug && hostBlocks) {
+                        console.log(`Emitting hosted blocks for ${getTagName(element)} in a class member`);
                     }
 
                     needsRuntimeImport = true;
-                    const result = transformJsxElementWithFinePatch(node, optimizationContext);
+                    const result = withHookFreeReason(
+                        optimizationContext,
+                        hookFreeReason,
+                        () => transformJsxElementWithFinePatch(element, optimizationContext),
+                        hostBlocks,
+                    );
 
                     // Store any static elements that were generated
                     if (result.staticElement) {
@@ -137,6 +168,27 @@ export default function (program: ts.Program, options: DecillionTransformerOptio
                     return result.element;
                 }
 
+                // Fragment roots: every child is optimized on its own
+                if (ts.isJsxFragment(node)) {
+                    if (shouldSkipTransformation(optimizationContext)) {
+                        return ts.visitEachChild(node, visitNode, context);
+                    }
+
+                    const hostBlocks = blockAnalyzer.isInsideClassMember(node);
+                    const hookFreeReason = hostBlocks ? undefined : blockAnalyzer.getHookUnsafeReason(node);
+                    if (debug && hookFreeReason) {
+                        console.log(`Emitting hook-free JSX for a fragment: ${hookFreeReason}`);
+                    }
+
+                    needsRuntimeImport = true;
+                    return withHookFreeReason(
+                        optimizationContext,
+                        hookFreeReason,
+                        () => transformJsxFragment(node, optimizationContext).element,
+                        hostBlocks,
+                    );
+                }
+
                 // Continue visiting children
                 return ts.visitEachChild(node, visitNode, context);
             };
@@ -192,14 +244,23 @@ function shouldSkipFile(file: ts.SourceFile, debug: boolean): boolean {
         return true;
     }
 
-    // Quick check: if the file doesn't contain JSX, don't transform it
-    if (!sourceText.includes("<") && !sourceText.includes("React.createElement")) {
+    // Quick check: if the file doesn't contain JSX or createElement calls, don't transform it
+    if (!sourceText.includes("<") && !sourceText.includes("createElement")) {
         return true;
     }
 
     return false;
 }
 
+/**
+ * Gets the path of a file relative to the project root with forward slashes,
+ * so IDs derived from it do not depend on the machine the build runs on
+ */
+function getSourceFileIdentity(program: ts.Program, file: ts.SourceFile): string {
+    const rootDir = program.getCompilerOptions().rootDir ?? program.getCurrentDirectory();
+    return path.relative(rootDir, file.fileName).replace(/\\/g, "/");
+}
+
 /**
  * Gets the tag name from a JSX element
  */
@@ -250,20 +311,6 @@ function applyPostTransformations(
 function addStaticDeclarations(file: ts.SourceFile, context: OptimizationContext): ts.SourceFile {
     const moduleStatements: ts.Statement[] = [];
 
-    // Group static props by tag name for better organization
-    const propsByTag = new Map<string, Array<{ id: string; props: PropInfo[] }>>();
-
-    for (const [id, props] of context.staticPropsTables) {
-        // Extract tag name from the ID (e.g., STATIC_PROPS_TEXTLABEL_mrs9jq -> textlabel)
-        const tagMatch = id.match(/STATIC_PROPS_([A-Z]+)_/);
-        const tagName = tagMatch ? tagMatch[1].toLowerCase() : "unknown";
-
-        if (!propsByTag.has(tagName)) {
-            propsByTag.set(tagName, []);
-        }
-        propsByTag.get(tagName)!.push({ id, props });
-    }
-
     // Sort static elements by dependency order to avoid "used before declaration" errors
     const sortedElements = topologicalSortElements(context.staticElements);
 
@@ -275,33 +322,31 @@ function addStaticDeclarations(file: ts.SourceFile, context: OptimizationContext
         moduleStatements.push(separatorComment);
     }
 
-    // First add all static props tables (since elements depend on them)
-    for (const [, propsEntries] of propsByTag) {
-        for (const { id, props } of propsEntries) {
-            // Create const STATIC_PROPS_XXX = { ... };
-            const properties = props.map((prop) =>
-                ts.factory.createPropertyAssignment(ts.factory.createIdentifier(prop.name), prop.value),
-            );
+    // First add all static props tables (since elements depend on them), in the order they were discovered
+    for (const [id, props] of context.staticPropsTables) {
+        // Create const STATIC_PROPS_XXX = { ... };
+        const properties = props.map((prop) =>
+            ts.factory.createPropertyAssignment(ts.factory.createIdentifier(prop.name), prop.value),
+        );
 
-            const propsObject = ts.factory.createObjectLiteralExpression(properties, true);
+        const propsObject = ts.factory.createObjectLiteralExpression(properties, true);
 
-            const constDeclaration = ts.factory.createVariableStatement(
-                undefined,
-                ts.factory.createVariableDeclarationList(
-                    [
-                        ts.factory.createVariableDeclaration(
-                            ts.factory.createIdentifier(id),
-                            undefined,
-                            undefined,
-                            propsObject,
-                        ),
-                    ],
-                    ts.NodeFlags.Const,
-                ),
-            );
+        const constDeclaration = ts.factory.createVariableStatement(
+            undefined,
+            ts.factory.createVariableDeclarationList(
+                [
+                    ts.factory.createVariableDeclaration(
+                        ts.factory.createIdentifier(id),
+                        undefined,
+                        undefined,
+                        propsObject,
+                    ),
+                ],
+                ts.NodeFlags.Const,
+            ),
+        );
 
-            moduleStatements.push(constDeclaration);
-        }
+        moduleStatements.push(constDeclaration);
     }
 
     // Then add static elements in dependency order
@@ -348,7 +393,8 @@ function addStaticDeclarations(file: ts.SourceFile, context: OptimizationContext
         }
     }
 
-    // Insert static declarations after imports but before other statements
+    // Insert static declarations after imports but before other statements, except for the module constants and
+    // enums they read, which have to be declared first
     const importStatements: ts.Statement[] = [];
     const otherStatements: ts.Statement[] = [];
 
@@ -360,7 +406,28 @@ function addStaticDeclarations(file: ts.SourceFile, context: OptimizationContext
         }
     }
 
-    const statements = [...importStatements, ...moduleStatements, ...otherStatements];
+    const referencedNames = new Set<string>();
+    const collectReferencedNames = (node: ts.Node): void => {
+        if (ts.isIdentifier(node)) {
+            referencedNames.add(node.text);
+        }
+        ts.forEachChild(node, collectReferencedNames);
+    };
+    moduleStatements.forEach(collectReferencedNames);
+
+    let insertIndex = 0;
+    otherStatements.forEach((stmt, index) => {
+        if (getDeclaredNames(stmt).some((name) => referencedNames.has(name))) {
+            insertIndex = index + 1;
+        }
+    });
+
+    const statements = [
+        ...importStatements,
+        ...otherStatements.slice(0, insertIndex),
+        ...moduleStatements,
+        ...otherStatements.slice(insertIndex),
+    ];
 
     return ts.factory.updateSourceFile(
         file,
@@ -373,6 +440,36 @@ function addStaticDeclarations(file: ts.SourceFile, context: OptimizationContext
     );
 }
 
+/**
+ * Gets the names a module-level statement declares that static declarations may read
+ */
+function getDeclaredNames(statement: ts.Statement): string[] {
+    const names: string[] = [];
+    const collectBindingNames = (name: ts.BindingName): void => {
+        if (ts.isIdentifier(name)) {
+            names.push(name.text);
+            return;
+        }
+        for (const element of name.elements) {
+            if (!ts.isOmittedExpression(element)) {
+                collectBindingNames(element.name);
+            }
+        }
+    };
+
+    if (ts.isVariableStatement(statement)) {
+        statement.declarationList.declarations.forEach((declaration) => collectBindingNames(declaration.name));
+    } else if (
+        (ts.isEnumDeclaration(statement) ||
+            ts.isModuleDeclaration(statement) ||
+            ts.isImportEqualsDeclaration(statement)) &&
+        ts.isIdentifier(statement.name)
+    ) {
+        names.push(statement.name.text);
+    }
+    return names;
+}
+
 /**
  * Performs topological sort on static elements to ensure dependencies are declared first
  */
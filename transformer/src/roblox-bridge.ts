@@ -2,13 +2,67 @@
 import * as path from "path";
 import * as ts from "typescript";
 
+/**
+ * How a constructor or static function of a Roblox global behaves, which decides whether calls to it can be hoisted:
+ * - pure: the result depends only on the arguments and cannot be mutated, so one shared value can stand in for it
+ * - costly: deterministic, but too expensive to run when the module loads whether or not it is ever rendered
+ * - impure: has side effects or a changing result, such as `Instance.new`, `os.clock` or `math.random`
+ */
+export type RobloxPurity = "pure" | "costly" | "impure";
+
 interface CacheData {
     version: string;
+    format: number;
     staticConstructors: string[];
     staticMethods: Record<string, string[]>;
     staticProperties: Record<string, string[]>;
+    purity: Record<string, Record<string, RobloxPurity>>;
 }
 
+// Bumped when the cached data or its purity classification changes, so older caches are parsed again
+const CACHE_FORMAT = 2;
+
+// Immutable data types and libraries of pure functions; members of any other global are impure
+const PURE_LIBRARIES = new Set([
+    "Axes",
+    "BrickColor",
+    "CFrame",
+    "Color3",
+    "ColorSequence",
+    "ColorSequenceKeypoint",
+    "DateTime",
+    "Faces",
+    "Font",
+    "NumberRange",
+    "NumberSequence",
+    "NumberSequenceKeypoint",
+    "PhysicalProperties",
+    "Ray",
+    "Rect",
+    "Region3",
+    "Region3int16",
+    "TweenInfo",
+    "UDim",
+    "UDim2",
+    "Vector2",
+    "Vector2int16",
+    "Vector3",
+    "Vector3int16",
+    "bit32",
+    "math",
+    "string",
+    "utf8",
+]);
+
+// Members that behave differently from the rest of their library
+const PURITY_OVERRIDES: Record<string, Record<string, RobloxPurity>> = {
+    BrickColor: { random: "impure" },
+    DateTime: { now: "impure" },
+    math: { random: "impure", randomseed: "impure", noise: "costly" },
+    // `split` returns a new table each call, which the caller may mutate
+    string: { gmatch: "impure", rep: "costly", split: "impure" },
+};
+
 /**
  * Cache for Roblox built-in detection to avoid re-parsing roblox.d.ts
  */
@@ -16,6 +70,7 @@ class RobloxBridge {
     private staticConstructors = new Set<string>();
     private staticMethods = new Map<string, Set<string>>();
     private staticProperties = new Map<string, Set<string>>();
+    private purity = new Map<string, Map<string, RobloxPurity>>();
     private initialized = false;
     private visitedFiles = new Set<string>();
     private currentRbxtsVersion?: string;
@@ -216,8 +271,8 @@ class RobloxBridge {
             const cacheContent = fs.readFileSync(this.cacheFilePath, "utf-8");
             const cacheData: CacheData = JSON.parse(cacheContent);
 
-            // Check if version matches
-            if (cacheData.version !== this.currentRbxtsVersion) {
+            // Check if version and format match
+            if (cacheData.version !== this.currentRbxtsVersion || cacheData.format !== CACHE_FORMAT) {
                 return false;
             }
 
@@ -234,6 +289,11 @@ class RobloxBridge {
                 this.staticProperties.set(key, new Set(values));
             }
 
+            this.purity.clear();
+            for (const [key, members] of Object.entries(cacheData.purity)) {
+                this.purity.set(key, new Map(Object.entries(members)));
+            }
+
             return true;
         } catch (error) {
             console.warn("Failed to load cache:", error);
@@ -252,6 +312,7 @@ class RobloxBridge {
         try {
             const cacheData: CacheData = {
                 version: this.currentRbxtsVersion,
+                format: CACHE_FORMAT,
                 staticConstructors: Array.from(this.staticConstructors),
                 staticMethods: Object.fromEntries(
                     Array.from(this.staticMethods.entries()).map(([key, values]) => [key, Array.from(values)]),
@@ -259,6 +320,9 @@ class RobloxBridge {
                 staticProperties: Object.fromEntries(
                     Array.from(this.staticProperties.entries()).map(([key, values]) => [key, Array.from(values)]),
                 ),
+                purity: Object.fromEntries(
+                    Array.from(this.purity.entries()).map(([key, members]) => [key, Object.fromEntries(members)]),
+                ),
             };
 
             fs.writeFileSync(this.cacheFilePath, JSON.stringify(cacheData, null, 2), "utf-8");
@@ -275,6 +339,7 @@ class RobloxBridge {
         this.staticConstructors.clear();
         this.staticMethods.clear();
         this.staticProperties.clear();
+        this.purity.clear();
         this.initialized = false;
         this.visitedFiles.clear();
         this.interfaceDeclarations.clear();
@@ -490,8 +555,9 @@ class RobloxBridge {
      * Parse a constructor interface to extract static methods and properties
      */
     private parseConstructorInterface(typeName: string, constructorInterfaceName: string): void {
-        // Mark it as having a constructor
+        // Mark it as having a constructor, also when the constructor type is an alias such as `UDimConstructor`
         this.staticConstructors.add(typeName);
+        this.classifyPurity(typeName, "new");
 
         // Find the constructor interface declaration
         const constructorInterface = this.interfaceDeclarations.get(constructorInterfaceName);
@@ -515,6 +581,7 @@ class RobloxBridge {
                         this.staticMethods.set(typeName, new Set());
                     }
                     this.staticMethods.get(typeName)!.add(memberName);
+                    this.classifyPurity(typeName, memberName);
                 } else {
                     // It's a property
                     if (!this.staticProperties.has(typeName)) {
@@ -534,6 +601,17 @@ class RobloxBridge {
         }
     }
 
+    /**
+     * Record the purity of a constructor (`new`) or static function of a Roblox global
+     */
+    private classifyPurity(typeName: string, memberName: string): void {
+        const purity = PURITY_OVERRIDES[typeName]?.[memberName] ?? (PURE_LIBRARIES.has(typeName) ? "pure" : "impure");
+        if (!this.purity.has(typeName)) {
+            this.purity.set(typeName, new Map());
+        }
+        this.purity.get(typeName)!.set(memberName, purity);
+    }
+
     /**
      * Parse Enum namespace to find enum types
      */
@@ -562,6 +640,7 @@ class RobloxBridge {
                     this.staticMethods.set(namespaceName, new Set());
                 }
                 this.staticMethods.get(namespaceName)!.add(functionName);
+                this.classifyPurity(namespaceName, functionName);
             }
 
             // Handle variable declarations that might be static properties
@@ -584,36 +663,36 @@ class RobloxBridge {
     }
 
     /**
-     * Check if a call expression is a static Roblox constructor or method
+     * Get the purity of the Roblox constructor or static function a call or new expression invokes, or undefined if
+     * it does not invoke one
      */
-    isStaticRobloxCall(expr: ts.CallExpression): boolean {
-        if (ts.isPropertyAccessExpression(expr.expression)) {
+    getCallPurity(expr: ts.CallExpression | ts.NewExpression): RobloxPurity | undefined {
+        if (ts.isCallExpression(expr) && ts.isPropertyAccessExpression(expr.expression)) {
             const objName = ts.isIdentifier(expr.expression.expression) ? expr.expression.expression.text : "";
             const methodName = ts.isIdentifier(expr.expression.name) ? expr.expression.name.text : "";
-
-            // Check if it's a static method call
-            const staticMethods = this.staticMethods.get(objName);
-            return staticMethods ? staticMethods.has(methodName) : false;
+            return this.purity.get(objName)?.get(methodName);
         }
 
+        // `new Color3()`, or `Color3()` standing for it
         if (ts.isIdentifier(expr.expression)) {
-            const constructorName = expr.expression.text;
-            return this.staticConstructors.has(constructorName);
+            return this.purity.get(expr.expression.text)?.get("new");
         }
 
-        return false;
+        return undefined;
     }
 
     /**
-     * Check if a new expression is a static Roblox constructor
+     * Check if a call expression is a pure Roblox constructor or method, so its result can be hoisted
      */
-    isStaticRobloxNew(expr: ts.NewExpression): boolean {
-        if (ts.isIdentifier(expr.expression)) {
-            const constructorName = expr.expression.text;
-            return this.staticConstructors.has(constructorName);
-        }
+    isStaticRobloxCall(expr: ts.CallExpression): boolean {
+        return this.getCallPurity(expr) === "pure";
+    }
 
-        return false;
+    /**
+     * Check if a new expression is a pure Roblox constructor, so its result can be hoisted
+     */
+    isStaticRobloxNew(expr: ts.NewExpression): boolean {
+        return this.getCallPurity(expr) === "pure";
     }
 
     /**
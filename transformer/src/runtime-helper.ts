@@ -34,6 +34,9 @@ class RuntimeHelper {
             "useMemoizedBlock",
             "shouldUpdateBlock",
             "useFinePatchBlock",
+            "createFinePatchBlock",
+            "switchBranch",
+            "mapList",
         ]);
         const requiredTypeImports = new Set(Array.from(typeImports));
 
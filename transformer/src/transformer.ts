@@ -1,17 +1,50 @@
 import * as ts from "typescript";
 import type { BlockAnalyzer, BlockInfo } from "./analyzer";
 import {
+    createBlockUpdateOptions,
+    createMapListCall,
     createMemoizedBlockCall,
     createPropsObject,
+    createStableHash,
     createStaticElementCall,
+    createSwitchBranchCall,
     generateBlockId,
+    generateListId,
     generateStaticElementId,
     generateStaticInstanceFactoryId,
     generateStaticPropsId,
     createDependenciesArray,
+    getDependencyParameterNames,
 } from "./codegen";
+import {
+    createConstantLiteral,
+    evaluateConstantExpression,
+    foldConstantExpression,
+    isConstantLiteral,
+} from "./constant-evaluator";
 import { robloxStaticDetector } from "./roblox-bridge";
-import type { OptimizationContext, PropInfo, StaticElementInfo, TransformResult, PatchInstruction } from "./types";
+import { EditType } from "./types";
+import type {
+    ConditionalJsxInfo,
+    ListJsxInfo,
+    OptimizationContext,
+    PropEdit,
+    PropInfo,
+    StaticElementInfo,
+    TransformResult,
+    PatchInstruction,
+} from "./types";
+import {
+    getChildrenAttribute,
+    getConditionalJsx,
+    getCreateElementCall,
+    getCreateElementJsx,
+    getDependencyPath,
+    getJsxChildren,
+    getListJsx,
+    isCreateElementCall,
+    isReconciledChild,
+} from "./utils";
 
 /**
  * Creates the appropriate tag reference for React.createElement
@@ -20,7 +53,7 @@ import type { OptimizationContext, PropInfo, StaticElementInfo, TransformResult,
  * - Property access (Ctx.Provider) preserves the expression
  * - Namespaced names (ns:tag) are converted to string literals
  */
-function createTagReference(tagName: string | ts.JsxTagNameExpression): ts.Expression {
+function createTagReference(tagName: string | ts.JsxTagNameExpression | ts.Expression): ts.Expression {
     // If it's a string, convert it to the appropriate form
     if (typeof tagName === "string") {
         // Check if tag name starts with uppercase (PascalCase component)
@@ -50,6 +83,13 @@ function getTagExpression(node: ts.JsxElement | ts.JsxSelfClosingElement): ts.Js
     return ts.isJsxElement(node) ? node.openingElement.tagName : node.tagName;
 }
 
+/**
+ * Gets the tag to emit for an element: its JSX tag, or the type passed to the createElement call it was read from
+ */
+function getEmittedTag(node: ts.JsxElement | ts.JsxSelfClosingElement): ts.JsxTagNameExpression | ts.Expression {
+    return getCreateElementCall(node)?.arguments[0] ?? getTagExpression(node);
+}
+
 function sanitizeDependencyType(
     dep: string,
     typeNode: ts.TypeNode | undefined,
@@ -291,6 +331,22 @@ export function getParameterTypesString(blockInfo: BlockInfo, context: Optimizat
         .join(", ");
 }
 
+/**
+ * Builds a deterministic identity seed for a JSX site from its file, source position and a hash of its content.
+ * IDs derived from this seed are byte-identical across builds of the same source.
+ */
+function getJsxSiteSeed(node: ts.Node, context: OptimizationContext): string {
+    const sourceFile = node.getSourceFile();
+    const text =
+        sourceFile && node.pos >= 0
+            ? node.getText(sourceFile)
+            : ts
+                  .createPrinter()
+                  .printNode(ts.EmitHint.Unspecified, node, ts.createSourceFile("", "", ts.ScriptTarget.Latest));
+
+    return `${context.sourceFileIdentity}:${node.pos}:${createStableHash(text)}`;
+}
+
 /**
  * Core block transformation logic
  * Following Million.js pattern using the existing BlockAnalyzer
@@ -306,6 +362,7 @@ export class DecillionTransformer {
         typeChecker: ts.TypeChecker,
         transformationContext: ts.TransformationContext,
         blockAnalyzer?: BlockAnalyzer,
+        sourceFileIdentity = "",
     ) {
         this.context = {
             typeChecker,
@@ -317,9 +374,11 @@ export class DecillionTransformer {
             staticElements: new Map<string, StaticElementInfo>(),
             blockAnalyzer,
             skipTransformFunctions: new Set<string>(),
+            structuralCompareFunctions: new Set<string>(),
             functionContextStack: [],
             tagToInstanceNameMap: robloxStaticDetector.getTagToInstanceNameMap(),
             requiredTypeImports: new Set<string>(),
+            sourceFileIdentity,
         };
     }
 
@@ -350,7 +409,12 @@ export function transformJsxElementWithFinePatch(
     node: ts.JsxElement | ts.JsxSelfClosingElement,
     context: OptimizationContext,
 ): TransformResult {
-    const transformer = new DecillionTransformer(context.typeChecker, context.context, context.blockAnalyzer);
+    const transformer = new DecillionTransformer(
+        context.typeChecker,
+        context.context,
+        context.blockAnalyzer,
+        context.sourceFileIdentity,
+    );
 
     const blockInfo = transformer.analyzeJsxElement(node);
     const tagName = context.blockAnalyzer!.getJsxTagName(node);
@@ -363,7 +427,8 @@ export function transformJsxElementWithFinePatch(
         return generateStaticElement(node, tagName, context);
     }
 
-    if (context.blockAnalyzer!.shouldMemoizeBlock(blockInfo)) {
+    // Blocks are hooks, so a site that may not call hooks renders a plain element instead
+    if (context.blockAnalyzer!.shouldMemoizeBlock(blockInfo) && context.hookFreeReason === undefined) {
         // Use fine-grained patching for complex blocks
         return generateFinePatchBlock(node, blockInfo, tagName, context);
     }
@@ -371,6 +436,58 @@ export function transformJsxElementWithFinePatch(
     return generateOptimizedElement(node, tagName, context);
 }
 
+/**
+ * Runs a transform with the given hook-free reason, or with none to allow hooks again, restoring the previous one after
+ * Blocks are only hosted where `hostBlocks` is passed, so JSX nested in a hosted block follows its own reason.
+ */
+export function withHookFreeReason<T>(
+    context: OptimizationContext,
+    reason: string | undefined,
+    transform: () => T,
+    hostBlocks = false,
+): T {
+    const previousReason = context.hookFreeReason;
+    const previousHostBlocks = context.hostBlocks;
+    context.hookFreeReason = reason;
+    context.hostBlocks = hostBlocks;
+    try {
+        return transform();
+    } finally {
+        context.hookFreeReason = previousReason;
+        context.hostBlocks = previousHostBlocks;
+    }
+}
+
+/**
+ * Transforms a JSX fragment root. A fragment has no Instance of its own, so it cannot be a block root:
+ * its children are optimized one by one, with static children hoisted and each dynamic child compiled into its own
+ * block, and nested fragments are flattened into the same list.
+ */
+export function transformJsxFragment(node: ts.JsxFragment, context: OptimizationContext): TransformResult {
+    const children = extractOptimizedChildren(node, context);
+
+    const element = ts.factory.createCallExpression(
+        ts.factory.createPropertyAccessExpression(
+            ts.factory.createIdentifier("React"),
+            ts.factory.createIdentifier("createElement"),
+        ),
+        undefined,
+        [
+            ts.factory.createPropertyAccessExpression(
+                ts.factory.createIdentifier("React"),
+                ts.factory.createIdentifier("Fragment"),
+            ),
+            ts.factory.createIdentifier("undefined"),
+            ...children,
+        ],
+    );
+
+    return {
+        element,
+        needsRuntimeImport: true,
+    };
+}
+
 /**
  * Generates a fine-grained patch block
  */
@@ -380,15 +497,27 @@ function generateFinePatchBlock(
     tagName: string,
     context: OptimizationContext,
 ): TransformResult {
-    const blockId = generateBlockId(tagName);
-    const allProps = extractPropsFromJsx(node);
-    const children = extractOptimizedChildren(node, context);
-
-    // Generate patch instructions
+    const blockId = generateBlockId(tagName, getJsxSiteSeed(node, context));
+    const hosted = context.hostBlocks === true;
+    // The render function only runs when the block re-renders, so nothing inside it may call hooks
+    const renderFunctionReason = `it renders inside the render function of ${blockId}`;
+    const allProps = withHookFreeReason(context, renderFunctionReason, () => extractOptimizedProps(node, context));
+    const children = withHookFreeReason(context, renderFunctionReason, () => extractOptimizedChildren(node, context));
+
+    // Generate patch instructions, whose value getters run outside of render
     const finePatchInfo = context.blockAnalyzer!.generatePatchInstructions(node);
+    withHookFreeReason(context, "it is in a value getter", () => {
+        for (const instruction of finePatchInfo.patchInstructions) {
+            for (const edit of instruction.edits) {
+                if (edit.value) {
+                    edit.value = optimizeNestedJsx(edit.value, context);
+                }
+            }
+        }
+    });
 
     // Get the actual tag expression (handles PropertyAccessExpression like Ctx.Provider)
-    const tagExpression = getTagExpression(node);
+    const tagExpression = getEmittedTag(node);
 
     // Create the React.createElement call inside the arrow function
     const createElementCall = ts.factory.createCallExpression(
@@ -404,13 +533,18 @@ function generateFinePatchBlock(
         ],
     );
 
-    const parameters = new Array<ts.ParameterDeclaration>();
+    const parameterTypes = new Array<ts.TypeNode | undefined>();
     const dependencyTypeNodes: ts.TypeNode[] = [];
     const orderedDependencies: string[] = [];
     const processedDependencies = new Set<string>();
 
+    // Every edit indexes into the dependencies array, so anything an edit reads must be passed to the block as well
+    const editDependencies = finePatchInfo.patchInstructions.flatMap((instruction) =>
+        instruction.edits.flatMap((edit) => edit.dependencyKeys),
+    );
+
     // Create parameters for dependencies
-    for (const dep of blockInfo.dependencies) {
+    for (const dep of [...blockInfo.dependencies, ...editDependencies]) {
         if (processedDependencies.has(dep)) {
             continue;
         }
@@ -419,23 +553,34 @@ function generateFinePatchBlock(
         orderedDependencies.push(dep);
 
         let typeNode: ts.TypeNode | undefined;
-        if (blockInfo.dependencyTypes?.has(dep)) {
-            const depInfo = blockInfo.dependencyTypes.get(dep)!;
+        const depInfo = blockInfo.dependencyTypes?.get(dep) ?? finePatchInfo.dependencyTypes?.get(dep);
+        if (depInfo) {
             typeNode = sanitizeDependencyType(dep, depInfo.type, context);
         }
 
         dependencyTypeNodes.push(typeNode ?? ts.factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword));
+        parameterTypes.push(typeNode);
+    }
 
-        parameters.push(
-            ts.factory.createParameterDeclaration(
-                undefined,
-                undefined,
-                ts.factory.createIdentifier(dep),
-                undefined,
-                typeNode,
-                undefined,
-            ),
-        );
+    const parameterNames = getDependencyParameterNames(orderedDependencies, getSourceFileNames(node.getSourceFile()));
+    const parameters = orderedDependencies.map((dep, index) =>
+        ts.factory.createParameterDeclaration(
+            undefined,
+            undefined,
+            ts.factory.createIdentifier(parameterNames.get(dep)!),
+            undefined,
+            parameterTypes[index],
+            undefined,
+        ),
+    );
+
+    // Value getters are created once, so they (and the render function) read path dependencies from their parameters
+    for (const instruction of finePatchInfo.patchInstructions) {
+        for (const edit of instruction.edits) {
+            if (edit.value) {
+                edit.value = substituteDependencyPaths(edit.value, parameterNames, context);
+            }
+        }
     }
 
     const arrowFunction = ts.factory.createArrowFunction(
@@ -444,41 +589,211 @@ function generateFinePatchBlock(
         parameters,
         undefined,
         ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
-        createElementCall,
+        substituteDependencyPaths(createElementCall, parameterNames, context),
     );
 
-    // Create patch instructions array literal
-    const patchInstructionsArray = createPatchInstructionsLiteral(finePatchInfo.patchInstructions);
+    // Create patch instructions array literal, with value getters when the tree can be patched from them alone
+    const patchInstructionsArray = createPatchInstructionsLiteral(
+        finePatchInfo.patchInstructions,
+        parameterNames,
+        canUseValueGetters(node, children, finePatchInfo.patchInstructions, context.typeChecker),
+    );
 
     // Use fine-grained patch function
     const finalDependencies = orderedDependencies;
+    const updateOptions = createBlockUpdateOptions(usesStructuralCompare(context), getKeyExpression(node));
     const genericArguments = dependencyTypeNodes.length
         ? [ts.factory.createTupleTypeNode(dependencyTypeNodes)]
         : undefined;
 
+    // A site that cannot call hooks, such as a class method, renders the block through a host component instead
+    const blockFunction = hosted ? "createFinePatchBlock" : "useFinePatchBlock";
+
     return {
-        element: ts.factory.createCallExpression(ts.factory.createIdentifier("useFinePatchBlock"), genericArguments, [
+        element: ts.factory.createCallExpression(ts.factory.createIdentifier(blockFunction), genericArguments, [
             arrowFunction,
             createDependenciesArray(finalDependencies),
-            patchInstructionsArray,
+            createThunk(patchInstructionsArray),
             ts.factory.createStringLiteral(blockId),
+            createThunk(
+                ts.factory.createArrayLiteralExpression(
+                    finalDependencies.map((dep) => ts.factory.createStringLiteral(dep)),
+                ),
+            ),
+            ...(updateOptions ? [updateOptions] : []),
         ]),
         needsRuntimeImport: true,
     };
 }
 
+/**
+ * Wraps an expression in a parameterless arrow function, so the runtime only evaluates it on a block's first render
+ */
+function createThunk(expression: ts.Expression): ts.ArrowFunction {
+    return ts.factory.createArrowFunction(
+        undefined,
+        undefined,
+        [],
+        undefined,
+        ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+        expression,
+    );
+}
+
+// Runtime calls emitted for JSX whose elements React renders: branch switches, lists and nested blocks
+const REACT_RENDERED_RUNTIME_CALLS = new Set([
+    "createBlock",
+    "createFinePatchBlock",
+    "mapList",
+    "switchBranch",
+    "useFinePatchBlock",
+    "useMemoizedBlock",
+]);
+
+/**
+ * Determines whether a block can skip re-running its render function and patch from value getters instead.
+ * That requires a tree of intrinsic elements only, since component props are applied by React rather than by edits,
+ * no spread attributes, refs or keys below the root, no conditional or mapped JSX children, which update through React,
+ * no hook calls (nested blocks) among the rendered children, and a value expression for every edit that only builds
+ * intrinsic elements. Expression children must be typed as text (strings or numbers), since the runtime mounts the
+ * values of child edits itself, and a pass-through such as `{children}` may hold any element.
+ * Event and Change props stay with React, which connects their handlers on mount and calls them with the Instance.
+ */
+function canUseValueGetters(
+    node: ts.JsxElement | ts.JsxSelfClosingElement,
+    children: ts.Expression[],
+    patchInstructions: PatchInstruction[],
+    typeChecker: ts.TypeChecker,
+): boolean {
+    const isIntrinsicElement = (element: ts.JsxElement | ts.JsxSelfClosingElement): boolean => {
+        const tagExpression = getTagExpression(element);
+        return ts.isIdentifier(tagExpression) && tagExpression.text[0] !== tagExpression.text[0]?.toUpperCase();
+    };
+
+    const isTextExpression = (expression: ts.Expression): boolean => {
+        const type = typeChecker.getTypeAtLocation(expression);
+        return (type.isUnion() ? type.types : [type]).every(
+            (member) => (member.flags & (ts.TypeFlags.StringLike | ts.TypeFlags.NumberLike)) !== 0,
+        );
+    };
+
+    const isIntrinsicTree = (element: ts.JsxElement | ts.JsxSelfClosingElement): boolean => {
+        if (!isIntrinsicElement(element)) {
+            return false;
+        }
+        // A spread's keys are resolved against the rendered props, where later props override it
+        if (getJsxAttributes(element).some(ts.isJsxSpreadAttribute)) {
+            return false;
+        }
+        // React only attaches refs and applies keys below the root when it renders
+        if (getJsxAttributes(element).some((attr) => isReservedAttribute(attr, "ref"))) {
+            return false;
+        }
+        if (element !== node && getKeyExpression(element)) {
+            return false;
+        }
+
+        for (const child of getJsxChildren(element)) {
+            if ((ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) && !isIntrinsicTree(child)) {
+                return false;
+            }
+            // Branch switches and keyed lists are reconciled by React, so the block has to re-render to update them
+            if (ts.isJsxExpression(child) && child.expression && isReconciledChild(child.expression)) {
+                return false;
+            }
+            if (ts.isJsxExpression(child) && child.expression && !isTextExpression(child.expression)) {
+                return false;
+            }
+        }
+        return true;
+    };
+
+    const containsHookCall = (expression: ts.Node): boolean => {
+        if (
+            ts.isCallExpression(expression) &&
+            ts.isIdentifier(expression.expression) &&
+            /^use[A-Z]/.test(expression.expression.text)
+        ) {
+            return true;
+        }
+        return ts.forEachChild(expression, containsHookCall) ?? false;
+    };
+
+    // Components, createElement calls, branch switches, lists and nested blocks anywhere in a value (e.g. the rows of
+    // a `.map` that is not a list template) render through React, so the runtime cannot mount them as Instances.
+    // Values are already transformed, so the elements and runtime calls emitted for them are matched by name.
+    const containsReactElement = (expression: ts.Node): boolean => {
+        if (
+            (ts.isJsxElement(expression) || ts.isJsxSelfClosingElement(expression)) &&
+            !isIntrinsicElement(expression)
+        ) {
+            return true;
+        }
+        if (ts.isJsxFragment(expression)) {
+            return true;
+        }
+        if (ts.isCallExpression(expression)) {
+            const callee = expression.expression;
+            const calleeName = ts.isIdentifier(callee)
+                ? callee.text
+                : ts.isPropertyAccessExpression(callee)
+                  ? callee.name.text
+                  : undefined;
+            if (calleeName === "createElement" || (calleeName && REACT_RENDERED_RUNTIME_CALLS.has(calleeName))) {
+                return true;
+            }
+        }
+        if (ts.isExpression(expression) && isReconciledChild(expression)) {
+            return true;
+        }
+        return ts.forEachChild(expression, containsReactElement) ?? false;
+    };
+
+    if (!isIntrinsicTree(node) || children.some(containsHookCall)) {
+        return false;
+    }
+
+    return patchInstructions.every((instruction) =>
+        instruction.edits.every(
+            (edit) =>
+                edit.value !== undefined &&
+                edit.type !== EditType.Event &&
+                !("propName" in edit && edit.propName === "Change") &&
+                !containsReactElement(edit.value),
+        ),
+    );
+}
+
 /**
  * Creates a literal array of patch instructions
+ * Each edit carries the indices of its dependencies among the keys of `parameterNames`, in the order the block receives them.
+ * With `includeValueGetters`, each edit also gets a `value` getter (a hole) taking the same parameters as the render function.
+ * Spread edits always get one, since it returns the prop bag whose keys the runtime diffs.
  */
-function createPatchInstructionsLiteral(patchInstructions: PatchInstruction[]): ts.ArrayLiteralExpression {
+function createPatchInstructionsLiteral(
+    patchInstructions: PatchInstruction[],
+    parameterNames: ReadonlyMap<string, string>,
+    includeValueGetters = false,
+): ts.ArrayLiteralExpression {
+    const orderedDependencies = [...parameterNames.keys()];
     const instructionLiterals = patchInstructions.map((instruction) => {
         const editsArray = ts.factory.createArrayLiteralExpression(
             instruction.edits.map((edit) => {
                 const editProperties = [
                     ts.factory.createPropertyAssignment("type", ts.factory.createNumericLiteral(edit.type.toString())),
                     ts.factory.createPropertyAssignment(
-                        "dependencyKey",
-                        ts.factory.createStringLiteral(edit.dependencyKey),
+                        "dependencyKeys",
+                        ts.factory.createArrayLiteralExpression(
+                            edit.dependencyKeys.map((key) => ts.factory.createStringLiteral(key)),
+                        ),
+                    ),
+                    ts.factory.createPropertyAssignment(
+                        "dependencyIndices",
+                        ts.factory.createArrayLiteralExpression(
+                            edit.dependencyKeys.map((key) =>
+                                ts.factory.createNumericLiteral(orderedDependencies.indexOf(key).toString()),
+                            ),
+                        ),
                     ),
                 ];
 
@@ -508,6 +823,32 @@ function createPatchInstructionsLiteral(patchInstructions: PatchInstruction[]):
                     );
                 }
 
+                if ("hole" in edit && edit.hole !== undefined) {
+                    editProperties.push(
+                        ts.factory.createPropertyAssignment("hole", ts.factory.createNumericLiteral(edit.hole)),
+                    );
+                }
+
+                // Spread edits always need their bag to know which keys it sets
+                if ((includeValueGetters || edit.type === EditType.Spread) && edit.value) {
+                    // Parameters are typed contextually through the block's dependency tuple
+                    editProperties.push(
+                        ts.factory.createPropertyAssignment(
+                            "value",
+                            ts.factory.createArrowFunction(
+                                undefined,
+                                undefined,
+                                [...parameterNames.values()].map((name) =>
+                                    ts.factory.createParameterDeclaration(undefined, undefined, name),
+                                ),
+                                undefined,
+                                ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                                edit.value,
+                            ),
+                        ),
+                    );
+                }
+
                 return ts.factory.createObjectLiteralExpression(editProperties);
             }),
         );
@@ -534,7 +875,12 @@ export function transformJsxElement(
     node: ts.JsxElement | ts.JsxSelfClosingElement,
     context: OptimizationContext,
 ): TransformResult {
-    const transformer = new DecillionTransformer(context.typeChecker, context.context, context.blockAnalyzer);
+    const transformer = new DecillionTransformer(
+        context.typeChecker,
+        context.context,
+        context.blockAnalyzer,
+        context.sourceFileIdentity,
+    );
 
     const blockInfo = transformer.analyzeJsxElement(node);
     const tagName = context.blockAnalyzer!.getJsxTagName(node);
@@ -559,14 +905,15 @@ function generateStaticElement(
     context: OptimizationContext,
     extractFullElement = true,
 ): TransformResult {
-    const staticProps = extractPropsFromJsx(node, true);
+    const staticProps = extractPropsFromJsx(node, context, true);
     const children = extractStaticChildren(node, context);
 
+    const seed = getJsxSiteSeed(node, context);
     let propsArg: ts.Expression;
     let staticPropsTable: { id: string; props: PropInfo[] } | undefined;
 
     if (staticProps.length > 0) {
-        const propsId = generateStaticPropsId(tagName);
+        const propsId = generateStaticPropsId(tagName, seed);
         staticPropsTable = { id: propsId, props: staticProps };
         context.staticPropsTables.set(propsId, staticProps);
         propsArg = ts.factory.createIdentifier(propsId);
@@ -578,8 +925,8 @@ function generateStaticElement(
 
     // Check if we should extract the full static element to module level
     if (extractFullElement && isCompletelyStatic(node, context)) {
-        const elementId = generateStaticElementId(tagName);
-        const instanceFactoryId = generateStaticInstanceFactoryId(tagName);
+        const elementId = generateStaticElementId(tagName, seed);
+        const instanceFactoryId = generateStaticInstanceFactoryId(tagName, seed);
         const staticElementInfo: StaticElementInfo = {
             id: elementId,
             tagName,
@@ -619,17 +966,15 @@ function isCompletelyStatic(node: ts.JsxElement | ts.JsxSelfClosingElement, cont
     }
 
     // Check if all children are static (already checked in blockInfo.isStatic, but let's be explicit)
-    if (ts.isJsxElement(node)) {
-        for (const child of node.children) {
-            if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) {
-                if (!isCompletelyStatic(child, context)) {
-                    return false;
-                }
-            } else if (ts.isJsxExpression(child) && child.expression) {
-                // Any JSX expression makes it dynamic
-                if (!isStaticExpression(child.expression)) {
-                    return false;
-                }
+    for (const child of getJsxChildren(node)) {
+        if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) {
+            if (!isCompletelyStatic(child, context)) {
+                return false;
+            }
+        } else if (ts.isJsxExpression(child) && child.expression) {
+            // Any JSX expression makes it dynamic
+            if (!isStaticExpression(child.expression, context)) {
+                return false;
             }
         }
     }
@@ -646,12 +991,14 @@ function generateMemoizedBlock(
     tagName: string,
     context: OptimizationContext,
 ): TransformResult {
-    const blockId = generateBlockId(tagName);
-    const allProps = extractPropsFromJsx(node);
-    const children = extractOptimizedChildren(node, context);
+    const blockId = generateBlockId(tagName, getJsxSiteSeed(node, context));
+    // The render function only runs when the block re-renders, so nothing inside it may call hooks
+    const renderFunctionReason = `it renders inside the render function of ${blockId}`;
+    const allProps = withHookFreeReason(context, renderFunctionReason, () => extractOptimizedProps(node, context));
+    const children = withHookFreeReason(context, renderFunctionReason, () => extractOptimizedChildren(node, context));
 
     // Get the actual tag expression (handles PropertyAccessExpression like Ctx.Provider)
-    const tagExpression = getTagExpression(node);
+    const tagExpression = getEmittedTag(node);
 
     // Create the React.createElement call inside the arrow function
     const createElementCall = ts.factory.createCallExpression(
@@ -668,6 +1015,10 @@ function generateMemoizedBlock(
     );
 
     const parameters = new Array<ts.ParameterDeclaration>();
+    const parameterNames = getDependencyParameterNames(
+        blockInfo.dependencies,
+        getSourceFileNames(node.getSourceFile()),
+    );
 
     // Create a map to track which dependencies we've already processed
     const processedDependencies = new Set<string>();
@@ -742,7 +1093,7 @@ function generateMemoizedBlock(
             ts.factory.createParameterDeclaration(
                 undefined,
                 undefined,
-                ts.factory.createIdentifier(dep),
+                ts.factory.createIdentifier(parameterNames.get(dep)!),
                 undefined,
                 typeNode,
                 undefined,
@@ -750,20 +1101,25 @@ function generateMemoizedBlock(
         );
     }
 
+    // Use the deduplicated dependencies for the dependencies array
+    const finalDependencies = Array.from(processedDependencies);
+
     const arrowFunction = ts.factory.createArrowFunction(
         undefined,
         undefined,
         parameters,
         undefined,
         ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
-        createElementCall,
+        substituteDependencyPaths(createElementCall, parameterNames, context),
     );
 
-    // Use the deduplicated dependencies for the dependencies array
-    const finalDependencies = Array.from(processedDependencies);
-
     return {
-        element: createMemoizedBlockCall(arrowFunction, finalDependencies, blockId),
+        element: createMemoizedBlockCall(
+            arrowFunction,
+            finalDependencies,
+            blockId,
+            createBlockUpdateOptions(usesStructuralCompare(context)),
+        ),
         needsRuntimeImport: true,
     };
 }
@@ -776,13 +1132,13 @@ function generateOptimizedElement(
     tagName: string,
     context: OptimizationContext,
 ): TransformResult {
-    const allProps = extractPropsFromJsx(node);
+    const allProps = extractOptimizedProps(node, context);
     const children = extractOptimizedChildren(node, context);
 
     const propsArg = allProps.length > 0 ? createPropsObject(allProps) : ts.factory.createIdentifier("undefined");
 
     // Get the actual tag expression (handles PropertyAccessExpression like Ctx.Provider)
-    const tagExpression = getTagExpression(node);
+    const tagExpression = getEmittedTag(node);
 
     const element = ts.factory.createCallExpression(
         ts.factory.createPropertyAccessExpression(
@@ -806,13 +1162,9 @@ function extractStaticChildren(
     node: ts.JsxElement | ts.JsxSelfClosingElement,
     context: OptimizationContext,
 ): ts.Expression[] {
-    if (!ts.isJsxElement(node)) {
-        return [];
-    }
-
     const children: ts.Expression[] = [];
 
-    for (const child of node.children) {
+    for (const child of getJsxChildren(node)) {
         if (ts.isJsxText(child)) {
             const text = child.text.trim();
             if (text) {
@@ -829,6 +1181,9 @@ function extractStaticChildren(
                 context.staticElements.set(childResult.staticElement.id, childResult.staticElement);
             }
             children.push(childResult.element);
+        } else if (ts.isJsxExpression(child) && child.expression) {
+            // Static expression children, such as a constant or a value fixed by its type
+            children.push(foldConstants(child.expression, context));
         }
     }
 
@@ -839,22 +1194,21 @@ function extractStaticChildren(
  * Extracts and optimizes children from JSX element
  */
 function extractOptimizedChildren(
-    node: ts.JsxElement | ts.JsxSelfClosingElement,
+    node: ts.JsxElement | ts.JsxSelfClosingElement | ts.JsxFragment,
     context: OptimizationContext,
 ): ts.Expression[] {
-    if (!ts.isJsxElement(node)) {
-        return [];
-    }
-
     const children: ts.Expression[] = [];
+    // Position among the element and expression children, as the analyzer numbers them for child edits
+    let childIndex = 0;
 
-    for (const child of node.children) {
+    for (const child of getJsxChildren(node)) {
         if (ts.isJsxText(child)) {
             const text = child.text.trim();
             if (text) {
                 children.push(ts.factory.createStringLiteral(text));
             }
         } else if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) {
+            childIndex++;
             const childResult = transformJsxElementWithFinePatch(child, context);
             if (childResult.staticPropsTable) {
                 context.staticPropsTables.set(childResult.staticPropsTable.id, childResult.staticPropsTable.props);
@@ -864,21 +1218,355 @@ function extractOptimizedChildren(
             }
             children.push(childResult.element);
         } else if (ts.isJsxExpression(child) && child.expression) {
-            children.push(child.expression);
+            const conditional = getConditionalJsx(child.expression);
+            const list = conditional ? undefined : getListJsx(child.expression);
+            if (conditional) {
+                children.push(generateBranchSwitch(child.expression, conditional, context));
+            } else if (list) {
+                children.push(generateListBlock(list, childIndex, context));
+            } else {
+                children.push(optimizeNestedJsx(child.expression, context));
+            }
+            childIndex++;
         }
     }
 
     return children;
 }
 
+/**
+ * Replaces the member-path dependencies (`props.name`) an expression reads with the parameters that receive them.
+ * Paths whose root is rebound inside the expression, such as by a callback parameter, or `this` inside a function
+ * that is not an arrow, are left alone there.
+ */
+function substituteDependencyPaths(
+    expression: ts.Expression,
+    parameterNames: ReadonlyMap<string, string>,
+    context: OptimizationContext,
+): ts.Expression {
+    const paths = new Set([...parameterNames.keys()].filter((dep) => dep.includes(".")));
+    if (paths.size === 0) {
+        return expression;
+    }
+
+    const visit = (node: ts.Node, shadowed: ReadonlySet<string>): ts.Node => {
+        if (ts.isPropertyAccessExpression(node)) {
+            const path = getDependencyPath(node);
+            if (path !== undefined && paths.has(path) && !shadowed.has(path.slice(0, path.indexOf(".")))) {
+                return ts.factory.createIdentifier(parameterNames.get(path)!);
+            }
+        }
+
+        if (ts.isFunctionLike(node) && (node.parameters.length > 0 || !ts.isArrowFunction(node))) {
+            const innerShadowed = new Set(shadowed);
+            for (const parameter of node.parameters) {
+                collectBindingNames(parameter.name, innerShadowed);
+            }
+            if (!ts.isArrowFunction(node)) {
+                innerShadowed.add("this");
+            }
+            return ts.visitEachChild(node, (child) => visit(child, innerShadowed), context.context);
+        }
+
+        return ts.visitEachChild(node, (child) => visit(child, shadowed), context.context);
+    };
+
+    return visit(expression, new Set()) as ts.Expression;
+}
+
+// Identifier names of each source file, which parameters named after dependency paths must not shadow
+const sourceFileNames = new WeakMap<ts.SourceFile, Set<string>>();
+
+/**
+ * Gets every identifier name a source file uses, collected once per file
+ */
+function getSourceFileNames(sourceFile: ts.SourceFile): Set<string> {
+    let names = sourceFileNames.get(sourceFile);
+    if (!names) {
+        const collected = new Set<string>();
+        const visit = (node: ts.Node): void => {
+            if (ts.isIdentifier(node)) {
+                collected.add(node.text);
+            }
+            ts.forEachChild(node, visit);
+        };
+        visit(sourceFile);
+        names = collected;
+        sourceFileNames.set(sourceFile, names);
+    }
+    return names;
+}
+
+function collectBindingNames(name: ts.BindingName, names: Set<string>): void {
+    if (ts.isIdentifier(name)) {
+        names.add(name.text);
+        return;
+    }
+    for (const element of name.elements) {
+        if (!ts.isOmittedExpression(element)) {
+            collectBindingNames(element.name, names);
+        }
+    }
+}
+
+/**
+ * Extracts the props of a JSX element with any JSX nested in their values optimized
+ */
+function extractOptimizedProps(
+    node: ts.JsxElement | ts.JsxSelfClosingElement,
+    context: OptimizationContext,
+): PropInfo[] {
+    return extractPropsFromJsx(node, context).map((prop) => ({
+        ...prop,
+        value: optimizeNestedJsx(prop.value, context),
+    }));
+}
+
+/**
+ * Optimizes JSX (and createElement calls) nested at any depth inside an expression that is otherwise emitted as
+ * written, such as a prop value (`icon={<imagelabel />}`), a render prop or a helper call among the children.
+ * Each nested site is transformed like a root site, and may only use blocks if it could call hooks where it is.
+ */
+function optimizeNestedJsx(expression: ts.Expression, context: OptimizationContext): ts.Expression {
+    const visit = (node: ts.Node): ts.Node => {
+        if (isCreateElementCall(node)) {
+            node = getCreateElementJsx(node) ?? node;
+        }
+
+        if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) {
+            // Hosted blocks can render wherever an element can, so JSX nested in a class member stays hosted
+            const hostBlocks = context.hostBlocks === true;
+            const reason = hostBlocks
+                ? undefined
+                : (context.hookFreeReason ?? context.blockAnalyzer!.getHookUnsafeReason(node));
+            return withHookFreeReason(
+                context,
+                reason,
+                () => {
+                    if (ts.isJsxFragment(node)) {
+                        return transformJsxFragment(node, context).element;
+                    }
+
+                    const result = transformJsxElementWithFinePatch(node, context);
+                    if (result.staticPropsTable) {
+                        context.staticPropsTables.set(result.staticPropsTable.id, result.staticPropsTable.props);
+                    }
+                    if (result.staticElement) {
+                        context.staticElements.set(result.staticElement.id, result.staticElement);
+                    }
+                    return result.element;
+                },
+                hostBlocks,
+            );
+        }
+
+        return ts.visitEachChild(node, visit, context.context);
+    };
+
+    return ts.visitNode(expression, visit) as ts.Expression;
+}
+
+/**
+ * Compiles a conditional JSX child into a switchBranch call.
+ * Each branch is optimized on its own and wrapped in a thunk, so only the picked branch renders.
+ * The conditions become a single index expression, with -1 for empty branches.
+ */
+function generateBranchSwitch(
+    expression: ts.Expression,
+    conditional: ConditionalJsxInfo,
+    context: OptimizationContext,
+): ts.Expression {
+    const branchThunks: ts.Expression[] = [];
+    const branchIndices = conditional.branches.map((branch) => {
+        if (!branch) {
+            return -1;
+        }
+
+        // Each branch renders inside its own host component, where hooks are safe again
+        const branchResult = withHookFreeReason(context, undefined, () =>
+            transformJsxElementWithFinePatch(branch, context),
+        );
+        if (branchResult.staticPropsTable) {
+            context.staticPropsTables.set(branchResult.staticPropsTable.id, branchResult.staticPropsTable.props);
+        }
+        if (branchResult.staticElement) {
+            context.staticElements.set(branchResult.staticElement.id, branchResult.staticElement);
+        }
+        branchThunks.push(createThunk(branchResult.element));
+        return branchThunks.length - 1;
+    });
+
+    const createIndexLiteral = (index: number): ts.Expression =>
+        index < 0
+            ? ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, ts.factory.createNumericLiteral(-index))
+            : ts.factory.createNumericLiteral(index);
+
+    let indexExpression = createIndexLiteral(branchIndices[branchIndices.length - 1]);
+    for (let i = conditional.conditions.length - 1; i >= 0; i--) {
+        indexExpression = ts.factory.createConditionalExpression(
+            optimizeNestedJsx(conditional.conditions[i], context),
+            ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+            createIndexLiteral(branchIndices[i]),
+            ts.factory.createToken(ts.SyntaxKind.ColonToken),
+            indexExpression,
+        );
+    }
+
+    return createSwitchBranchCall(indexExpression, branchThunks, hasKeepBranchesMarker(expression));
+}
+
+/**
+ * Compiles `array.map((item) => <row/>)` into a keyed list block.
+ * The row JSX becomes a static skeleton plus one hole per dynamic prop, and the callback returns the row's key
+ * followed by its hole values, so the list patches each row's Instances without rendering row elements.
+ * `startIndex` is the list's position among its parent's children, which the list numbers its rows from.
+ */
+function generateListBlock(list: ListJsxInfo, startIndex: number, context: OptimizationContext): ts.Expression {
+    const { row, callback } = list;
+    const keyExpression = getKeyExpression(row);
+
+    // Index 0 of every row is its key, so holes start at 1
+    const holeValues: ts.Expression[] = [keyExpression ?? ts.factory.createIdentifier("undefined")];
+    const holeNames = ["key"];
+    const instructions: PatchInstruction[] = [];
+
+    const createSkeleton = (element: ts.JsxElement | ts.JsxSelfClosingElement, path: number[]): ts.Expression => {
+        const staticProps: PropInfo[] = [];
+        const edits: PropEdit[] = [];
+
+        for (const prop of extractPropsFromJsx(element, context)) {
+            if (prop.name === "key") continue;
+
+            if (prop.isStatic) {
+                staticProps.push(prop);
+                continue;
+            }
+
+            const hole = holeValues.length;
+            const holeName = `${prop.name}_${hole}`;
+            holeValues.push(prop.value);
+            holeNames.push(holeName);
+            edits.push({
+                type: context.blockAnalyzer!.getEditTypeForProp(prop.name),
+                propName: prop.name,
+                dependencyKeys: [holeName],
+                path,
+                hole,
+            });
+        }
+
+        if (edits.length > 0) {
+            instructions.push({ elementPath: path, edits });
+        }
+
+        const children: ts.Expression[] = [];
+        if (ts.isJsxElement(element)) {
+            for (const child of getJsxChildren(element)) {
+                if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) {
+                    children.push(createSkeleton(child, [...path, children.length]));
+                }
+            }
+        }
+
+        return createStaticElementCall(
+            context.blockAnalyzer!.getJsxTagName(element),
+            staticProps.length > 0 ? createPropsObject(staticProps) : ts.factory.createIdentifier("undefined"),
+            children,
+            context.tagToInstanceNameMap,
+        );
+    };
+
+    const skeleton = createSkeleton(row, []);
+    const ownLayoutOrder = extractPropsFromJsx(row, context).some((prop) => prop.name === "LayoutOrder");
+
+    // The callback keeps its body, but returns the row's key and hole values instead of the row element
+    const rowValues = ts.factory.createArrayLiteralExpression(holeValues);
+    let body: ts.ConciseBody;
+    if (ts.isBlock(callback.body)) {
+        const statements = [...callback.body.statements];
+        statements[statements.length - 1] = ts.factory.createReturnStatement(rowValues);
+        body = ts.factory.updateBlock(callback.body, statements);
+    } else {
+        body = rowValues;
+    }
+
+    const rowCallback = ts.isArrowFunction(callback)
+        ? ts.factory.updateArrowFunction(
+              callback,
+              callback.modifiers,
+              callback.typeParameters,
+              callback.parameters,
+              undefined,
+              callback.equalsGreaterThanToken,
+              body,
+          )
+        : ts.factory.updateFunctionExpression(
+              callback,
+              callback.modifiers,
+              callback.asteriskToken,
+              callback.name,
+              callback.typeParameters,
+              callback.parameters,
+              undefined,
+              body as ts.Block,
+          );
+
+    const template = ts.factory.createObjectLiteralExpression([
+        ts.factory.createPropertyAssignment("element", skeleton),
+        ts.factory.createPropertyAssignment(
+            "instructions",
+            createPatchInstructionsLiteral(instructions, new Map(holeNames.map((name) => [name, name]))),
+        ),
+        ts.factory.createPropertyAssignment("holes", ts.factory.createNumericLiteral(holeValues.length - 1)),
+        ...(ownLayoutOrder ? [ts.factory.createPropertyAssignment("ownLayoutOrder", ts.factory.createTrue())] : []),
+    ]);
+
+    const rows = optimizeNestedJsx(
+        ts.factory.createCallExpression(ts.factory.createPropertyAccessExpression(list.array, "map"), undefined, [
+            rowCallback,
+        ]),
+        context,
+    );
+    const listId = generateListId(context.blockAnalyzer!.getJsxTagName(row), getJsxSiteSeed(row, context));
+
+    return createMapListCall(rows, createThunk(ts.factory.createParenthesizedExpression(template)), listId, startIndex);
+}
+
+/**
+ * Checks if a conditional JSX child is preceded by a @decillion-keep comment, which keeps its inactive branches
+ * mounted instead of destroying them
+ */
+function hasKeepBranchesMarker(expression: ts.Expression): boolean {
+    const sourceFile = expression.getSourceFile();
+    if (!sourceFile) {
+        return false;
+    }
+
+    // The text between the full start and the start of a node is its leading trivia: whitespace and comments
+    const leadingTrivia = sourceFile
+        .getFullText()
+        .substring(expression.getFullStart(), expression.getStart(sourceFile));
+    return leadingTrivia.includes("@decillion-keep");
+}
+
 /**
  * Extracts props from JSX element, categorizing them as static or dynamic
  */
-function extractPropsFromJsx(node: ts.JsxElement | ts.JsxSelfClosingElement, onlyStatic = false): PropInfo[] {
+function extractPropsFromJsx(
+    node: ts.JsxElement | ts.JsxSelfClosingElement,
+    context: OptimizationContext,
+    onlyStatic = false,
+): PropInfo[] {
     const props: PropInfo[] = [];
     const attributes = getJsxAttributes(node);
+    // An explicit children prop is emitted as the element's children instead
+    const childrenAttribute = getChildrenAttribute(node);
 
     for (const attr of attributes) {
+        if (attr === childrenAttribute) {
+            continue;
+        }
+
         if (ts.isJsxAttribute(attr) && attr.initializer) {
             const propName = ts.isIdentifier(attr.name) ? attr.name.text : attr.name.getText();
 
@@ -891,21 +1579,51 @@ function extractPropsFromJsx(node: ts.JsxElement | ts.JsxSelfClosingElement, onl
                 });
             } else if (ts.isJsxExpression(attr.initializer) && attr.initializer.expression) {
                 // Check if the JSX expression contains a static value
-                const isStatic = isStaticExpression(attr.initializer.expression);
+                const isStatic = isStaticExpression(attr.initializer.expression, context);
                 if (!onlyStatic || isStatic) {
                     props.push({
                         name: propName,
-                        value: attr.initializer.expression,
+                        value: isStatic
+                            ? foldConstants(attr.initializer.expression, context)
+                            : attr.initializer.expression,
                         isStatic,
                     });
                 }
             }
+        } else if (ts.isJsxSpreadAttribute(attr) && !onlyStatic) {
+            // Kept in attribute order, so props after the spread still override its keys
+            props.push({
+                name: "...",
+                value: attr.expression,
+                isStatic: false,
+                isSpread: true,
+            });
         }
     }
 
     return props;
 }
 
+/**
+ * Checks if an attribute is the given React-reserved prop (key, ref or children)
+ */
+function isReservedAttribute(attr: ts.JsxAttributeLike, name: "key" | "ref" | "children"): attr is ts.JsxAttribute {
+    return ts.isJsxAttribute(attr) && ts.isIdentifier(attr.name) && attr.name.text === name;
+}
+
+/**
+ * Gets the expression of an element's `key` attribute, if it has one
+ */
+function getKeyExpression(node: ts.JsxElement | ts.JsxSelfClosingElement): ts.Expression | undefined {
+    const keyAttribute = getJsxAttributes(node).find((attr) => isReservedAttribute(attr, "key")) as
+        ts.JsxAttribute | undefined;
+    const initializer = keyAttribute?.initializer;
+    if (!initializer) {
+        return undefined;
+    }
+    return ts.isJsxExpression(initializer) ? initializer.expression : initializer;
+}
+
 /**
  * Gets JSX attributes from either JsxElement or JsxSelfClosingElement
  */
@@ -917,48 +1635,74 @@ function getJsxAttributes(node: ts.JsxElement | ts.JsxSelfClosingElement): ts.No
 }
 
 /**
- * Determines if an expression contains only static values
+ * Determines if an expression contains only static values, classified by the analyzer so props and blocks agree
  */
-function isStaticExpression(expr: ts.Expression): boolean {
-    if (
-        ts.isStringLiteral(expr) ||
-        ts.isNumericLiteral(expr) ||
-        ts.isBooleanLiteral(expr) ||
-        expr.kind === ts.SyntaxKind.NullKeyword
-    ) {
-        return true;
+function isStaticExpression(expr: ts.Expression, context: OptimizationContext): boolean {
+    const analyzer = context.blockAnalyzer;
+    if (!analyzer) {
+        return evaluateConstantExpression(expr) !== undefined;
     }
+    return !analyzer.isDynamicExpression(expr);
+}
 
-    if (ts.isCallExpression(expr)) {
-        // Use the Roblox static detector for more comprehensive detection
-        if (robloxStaticDetector.isStaticRobloxCall(expr)) {
-            // Check if all arguments are static
-            return expr.arguments.every((arg) => isStaticExpression(arg as ts.Expression));
-        }
-
-        return false;
+/**
+ * Folds a static expression for hoisting to module level, where locals and props are out of scope: references whose
+ * type fixes their value become that value, locals computed from constants become their initializer, and constant
+ * expressions such as `1 / 3` or `"a" + "b"` become literals. Module constants keep their names.
+ */
+function foldConstants(expression: ts.Expression, context: OptimizationContext): ts.Expression {
+    const analyzer = context.blockAnalyzer;
+    if (!analyzer) {
+        return foldConstantExpression(expression);
     }
 
-    // Handle new expressions (new Color3(), new Vector2(), etc.)
-    if (ts.isNewExpression(expr)) {
-        // Use the Roblox static detector
-        if (robloxStaticDetector.isStaticRobloxNew(expr)) {
-            return expr.arguments ? expr.arguments.every((arg) => isStaticExpression(arg as ts.Expression)) : true;
+    const visit = (node: ts.Node): ts.Node => {
+        if (ts.isIdentifier(node) || ts.isPropertyAccessExpression(node)) {
+            if (!analyzer.isStaticReference(node) && !isNameOrCallee(node)) {
+                const value = analyzer.getConstantTypeValue(node);
+                if (value) {
+                    return value;
+                }
+                // Locals computed from constants are replaced by their initializer, folded in turn
+                const initializer = ts.isIdentifier(node) ? analyzer.getStaticLocalInitializer(node) : undefined;
+                if (initializer) {
+                    return ts.visitNode(initializer, visit) as ts.Expression;
+                }
+            }
+        } else if (ts.isExpression(node) && !isConstantLiteral(node)) {
+            const result = analyzer.evaluateConstant(node);
+            const literal = result && createConstantLiteral(result.value);
+            if (literal) {
+                return literal;
+            }
         }
-        return false;
-    }
 
-    if (ts.isTemplateExpression(expr)) {
-        // Template expressions with variables are dynamic
-        return false;
-    }
+        // The name of a member access is not a reference of its own
+        if (ts.isPropertyAccessExpression(node)) {
+            return ts.factory.updatePropertyAccessExpression(
+                node,
+                ts.visitNode(node.expression, visit) as ts.Expression,
+                node.name,
+            );
+        }
+        return ts.visitEachChild(node, visit, context.context);
+    };
+
+    return ts.visitNode(expression, visit) as ts.Expression;
+}
 
-    if (ts.isIdentifier(expr) || ts.isPropertyAccessExpression(expr)) {
-        // Variable references are dynamic
+/**
+ * Checks if a node names a property or is called, rather than being read as a value
+ */
+function isNameOrCallee(node: ts.Identifier | ts.PropertyAccessExpression): boolean {
+    const parent = node.parent;
+    if (!parent) {
         return false;
     }
-
-    return false;
+    return (
+        ((ts.isPropertyAssignment(parent) || ts.isShorthandPropertyAssignment(parent)) && parent.name === node) ||
+        ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression === node)
+    );
 }
 
 /**
@@ -971,6 +1715,28 @@ function isStaticExpression(expr: ts.Expression): boolean {
 export function hasUndecillionDecorator(
     node: ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction | ts.MethodDeclaration,
     sourceFile?: ts.SourceFile,
+): boolean {
+    return hasMarkerComment(node, "@undecillion", sourceFile);
+}
+
+/**
+ * Checks if a function has the @decillion-structural comment, which makes its blocks compare plain table
+ * dependencies key by key instead of by reference
+ */
+export function hasStructuralCompareMarker(
+    node: ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction | ts.MethodDeclaration,
+    sourceFile?: ts.SourceFile,
+): boolean {
+    return hasMarkerComment(node, "@decillion-structural", sourceFile);
+}
+
+/**
+ * Checks if a marker such as @undecillion appears in a comment directly before a function
+ */
+function hasMarkerComment(
+    node: ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction | ts.MethodDeclaration,
+    marker: string,
+    sourceFile?: ts.SourceFile,
 ): boolean {
     // Get the source file and text
     const file = sourceFile || node.getSourceFile();
@@ -1000,32 +1766,32 @@ export function hasUndecillionDecorator(
     const nodeStart = checkNode.getFullStart();
     const nodePos = checkNode.getStart(file);
 
-    // Look for @undecillion in the text before the actual node start
+    // Look for the marker in the text before the actual node start
     const textBeforeNode = fullText.substring(nodeStart, nodePos);
 
     // Also check a reasonable amount of text before the full start
     const contextStart = Math.max(0, nodeStart - 500); // Look back up to 500 characters
     const contextText = fullText.substring(contextStart, nodePos);
 
-    // Check if @undecillion appears in comments before the function
-    const hasUndecillionMarker = contextText.includes("@undecillion") || textBeforeNode.includes("@undecillion");
+    // Check if the marker appears in comments before the function
+    const hasMarker = contextText.includes(marker) || textBeforeNode.includes(marker);
 
-    if (hasUndecillionMarker) {
+    if (hasMarker) {
         // Ensure it's in a comment context, not just random text
         const lines = contextText.split("\n");
 
         for (let i = lines.length - 1; i >= 0; i--) {
             const line = lines[i].trim();
 
-            // Check if this line contains @undecillion in a comment context
-            if (line.includes("@undecillion")) {
+            // Check if this line contains the marker in a comment context
+            if (line.includes(marker)) {
                 // Verify it's in a comment (starts with //, /*, or is part of JSDoc)
                 if (
                     line.startsWith("//") ||
                     line.startsWith("/*") ||
                     line.startsWith("*") ||
-                    line.includes("* @undecillion") ||
-                    line.match(/^\s*@undecillion/)
+                    line.includes(`* ${marker}`) ||
+                    line.startsWith(marker)
                 ) {
                     return true;
                 }
@@ -1085,3 +1851,10 @@ export function getFunctionName(
 export function shouldSkipTransformation(context: OptimizationContext): boolean {
     return context.functionContextStack.some((functionName) => context.skipTransformFunctions.has(functionName));
 }
+
+/**
+ * Checks if we're currently inside a function marked @decillion-structural
+ */
+export function usesStructuralCompare(context: OptimizationContext): boolean {
+    return context.functionContextStack.some((functionName) => context.structuralCompareFunctions.has(functionName));
+}
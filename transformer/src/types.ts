@@ -26,6 +26,7 @@ export interface PropInfo {
     name: string;
     value: ts.Expression;
     isStatic: boolean;
+    isSpread?: boolean; // `{...value}`: the whole expression is spread into the props at this position
 }
 
 /**
@@ -40,6 +41,25 @@ export interface StaticElementInfo {
     instanceFactoryId?: string;
 }
 
+/**
+ * A conditional JSX child split into branches, e.g. `a ? <x/> : b ? <y/> : null`
+ * `branches` has one more entry than `conditions`: branch i is picked by the first true condition i, the last by none.
+ * Empty branches (null, undefined, false) are undefined.
+ */
+export interface ConditionalJsxInfo {
+    conditions: ts.Expression[];
+    branches: (ts.JsxElement | ts.JsxSelfClosingElement | undefined)[];
+}
+
+/**
+ * An `array.map` JSX child whose row compiles into a keyed list block template
+ */
+export interface ListJsxInfo {
+    array: ts.Expression;
+    callback: ts.ArrowFunction | ts.FunctionExpression;
+    row: ts.JsxElement | ts.JsxSelfClosingElement;
+}
+
 export interface TransformResult {
     element: ts.Expression;
     needsRuntimeImport: boolean;
@@ -56,20 +76,24 @@ export const enum EditType {
     Child = 2,
     Event = 4,
     Style = 8,
+    Spread = 16, // A spread prop bag whose keys are diffed at runtime
 }
 
 export interface PropEdit {
     type: EditType;
     propName: string;
-    dependencyKey: string; // Which dependency this edit depends on
+    dependencyKeys: string[]; // Every dependency this edit reads; a change to any of them fires the edit
     path?: number[]; // Path to the element in the tree (for nested elements)
+    value?: ts.Expression; // Source expression of the prop, emitted as a value getter (hole) over the dependencies
+    hole?: number; // For list rows: index of the row dependency that holds this prop's value
 }
 
 export interface ChildEdit {
     type: EditType.Child;
     index: number;
-    dependencyKey: string;
+    dependencyKeys: string[];
     path?: number[];
+    value?: ts.Expression;
 }
 
 export interface PatchInstruction {
@@ -93,10 +117,18 @@ export interface OptimizationContext {
     blockAnalyzer?: BlockAnalyzer;
     /** Set of function/component names that should be skipped due to @undecillion decorator */
     skipTransformFunctions: Set<string>;
+    /** Set of function/component names whose blocks compare plain table dependencies structurally (@decillion-structural) */
+    structuralCompareFunctions: Set<string>;
     /** Stack of current function context to track if we're inside a skip function */
     functionContextStack: string[];
     /** Map of tag names to Roblox instance names */
     tagToInstanceNameMap: Map<string, string>;
     /** Type-only imports required from the runtime */
     requiredTypeImports: Set<string>;
+    /** Path of the file being transformed relative to the project root, used to derive stable IDs */
+    sourceFileIdentity: string;
+    /** Set while transforming JSX that must not call hooks, with the reason why; blocks fall back to plain elements */
+    hookFreeReason?: string;
+    /** Set while transforming the JSX of a class member, whose blocks render through a host component instead of hooks */
+    hostBlocks?: boolean;
 }
@@ -1,4 +1,6 @@
 import * as ts from "typescript";
+import { robloxStaticDetector } from "./roblox-bridge";
+import type { ConditionalJsxInfo, ListJsxInfo } from "./types";
 
 /**
  * Shared utility functions for JSX transformation
@@ -42,3 +44,652 @@ export function jsxTagExpressionToString(expr: ts.JsxTagNameExpression): string
     }
     return "Unknown";
 }
+
+/**
+ * Gets the children of a JSX element or fragment as they end up under the parent Instance.
+ * Fragments are transparent: the children of a nested `<>...</>` are spliced in place of the fragment,
+ * since a fragment creates no Instance of its own.
+ */
+export function getJsxChildren(node: ts.JsxElement | ts.JsxSelfClosingElement | ts.JsxFragment): ts.JsxChild[] {
+    if (!ts.isJsxFragment(node)) {
+        const childrenAttribute = getChildrenAttribute(node);
+        if (childrenAttribute) {
+            return getAttributeChildren(childrenAttribute.initializer as ts.JsxExpression);
+        }
+    }
+
+    if (ts.isJsxSelfClosingElement(node)) {
+        return [];
+    }
+
+    const children: ts.JsxChild[] = [];
+    for (const child of node.children) {
+        if (ts.isJsxFragment(child)) {
+            children.push(...getJsxChildren(child));
+        } else {
+            children.push(child);
+        }
+    }
+    return children;
+}
+
+/**
+ * Gets an explicit `children={...}` attribute that stands in for the element's children.
+ * React only uses the attribute when the element has no JSX children of its own, so it is ignored otherwise.
+ */
+export function getChildrenAttribute(node: ts.JsxElement | ts.JsxSelfClosingElement): ts.JsxAttribute | undefined {
+    const attributes = ts.isJsxElement(node) ? node.openingElement.attributes : node.attributes;
+    const attribute = attributes.properties.find(
+        (attr): attr is ts.JsxAttribute =>
+            ts.isJsxAttribute(attr) && ts.isIdentifier(attr.name) && attr.name.text === "children",
+    );
+    if (!attribute?.initializer || !ts.isJsxExpression(attribute.initializer) || !attribute.initializer.expression) {
+        return undefined;
+    }
+
+    if (ts.isJsxElement(node)) {
+        const hasJsxChildren = node.children.some((child) =>
+            ts.isJsxText(child)
+                ? !child.containsOnlyTriviaWhiteSpaces
+                : !ts.isJsxExpression(child) || !!child.expression,
+        );
+        if (hasJsxChildren) {
+            return undefined;
+        }
+    }
+
+    return attribute;
+}
+
+/**
+ * Gets the children a `children={...}` attribute provides, as if they had been written between the tags
+ */
+function getAttributeChildren(initializer: ts.JsxExpression): ts.JsxChild[] {
+    let expression = initializer.expression!;
+    while (ts.isParenthesizedExpression(expression)) {
+        expression = expression.expression;
+    }
+
+    if (ts.isJsxFragment(expression)) {
+        return getJsxChildren(expression);
+    }
+    if (ts.isJsxElement(expression) || ts.isJsxSelfClosingElement(expression)) {
+        return [expression];
+    }
+    return [initializer];
+}
+
+/**
+ * Gets the access path a property access reads, such as `state.player.health` or `this.state.count`, to track it as a
+ * dependency of its own.
+ * Returns undefined where reading the path ahead of time is unsafe: through optional chaining, a computed key or a
+ * base other than an identifier or `this`, or where the access is called as a method or written to. Those fall back
+ * to the object the access is made on.
+ */
+export function getDependencyPath(node: ts.PropertyAccessExpression): string | undefined {
+    if (node.questionDotToken || !ts.isIdentifier(node.name) || isCalledOrWritten(node)) {
+        return undefined;
+    }
+
+    const object = node.expression;
+    if (ts.isIdentifier(object)) {
+        return `${object.text}.${node.name.text}`;
+    }
+    if (object.kind === ts.SyntaxKind.ThisKeyword) {
+        return `this.${node.name.text}`;
+    }
+    if (ts.isPropertyAccessExpression(object) && !object.questionDotToken) {
+        const objectPath = getDependencyPath(object);
+        return objectPath !== undefined ? `${objectPath}.${node.name.text}` : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * Gets the identifier (or `this`) an access path starts from
+ */
+export function getDependencyPathRoot(node: ts.PropertyAccessExpression): ts.Identifier | ts.ThisExpression {
+    let object = node.expression;
+    while (ts.isPropertyAccessExpression(object)) {
+        object = object.expression;
+    }
+    return object as ts.Identifier | ts.ThisExpression;
+}
+
+/**
+ * Checks if a read may only be safe behind a guard: in a branch of a conditional or an `if`, on the right of `&&`,
+ * `||` or `??`, or after an `if` testing the read's root, as in `if (!user) return`. Reading such a path ahead of
+ * time could index nil, so it falls back to its root.
+ */
+export function isGuardedRead(node: ts.PropertyAccessExpression): boolean {
+    const root = getDependencyPathRoot(node);
+    const rootName = ts.isIdentifier(root) ? root.text : "this";
+
+    let child: ts.Node = node;
+    for (let parent = node.parent; parent; child = parent, parent = parent.parent) {
+        if (ts.isConditionalExpression(parent) && child !== parent.condition) {
+            return true;
+        }
+        if (
+            ts.isBinaryExpression(parent) &&
+            child === parent.right &&
+            (parent.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken ||
+                parent.operatorToken.kind === ts.SyntaxKind.BarBarToken ||
+                parent.operatorToken.kind === ts.SyntaxKind.QuestionQuestionToken)
+        ) {
+            return true;
+        }
+        if (ts.isIfStatement(parent) && child !== parent.expression) {
+            return true;
+        }
+
+        // Earlier statements narrow the read's root by returning or throwing when it is missing
+        if (ts.isBlock(parent) || ts.isSourceFile(parent) || ts.isCaseClause(parent) || ts.isDefaultClause(parent)) {
+            for (const statement of parent.statements) {
+                if (statement === child) {
+                    break;
+                }
+                if (ts.isIfStatement(statement) && readsName(statement.expression, rootName)) {
+                    return true;
+                }
+            }
+        }
+    }
+    return false;
+}
+
+function readsName(node: ts.Node, name: string): boolean {
+    if ((ts.isIdentifier(node) && node.text === name) || (name === "this" && node.kind === ts.SyntaxKind.ThisKeyword)) {
+        return true;
+    }
+    return ts.forEachChild(node, (child) => readsName(child, name)) ?? false;
+}
+
+/**
+ * Checks if a property access is called as a method (which needs its object as `self`) or is assigned, updated or
+ * deleted, so its value cannot be read up front
+ */
+function isCalledOrWritten(node: ts.PropertyAccessExpression): boolean {
+    const parent = node.parent;
+    if (!parent) {
+        return false;
+    }
+
+    if ((ts.isCallExpression(parent) || ts.isTaggedTemplateExpression(parent)) && getCallee(parent) === node) {
+        return true;
+    }
+    if (
+        ts.isBinaryExpression(parent) &&
+        parent.left === node &&
+        parent.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+        parent.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+    ) {
+        return true;
+    }
+    if (
+        (ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) &&
+        (parent.operator === ts.SyntaxKind.PlusPlusToken || parent.operator === ts.SyntaxKind.MinusMinusToken)
+    ) {
+        return true;
+    }
+    return ts.isDeleteExpression(parent);
+}
+
+function getCallee(node: ts.CallExpression | ts.TaggedTemplateExpression): ts.Expression {
+    return ts.isCallExpression(node) ? node.expression : node.tag;
+}
+
+type JsxElementLike = ts.JsxElement | ts.JsxSelfClosingElement;
+
+// Elements read from createElement calls, so every reader of a call shares one node (and one block analysis)
+const createElementJsx = new WeakMap<ts.CallExpression, JsxElementLike | null>();
+const createElementCalls = new WeakMap<JsxElementLike, ts.CallExpression>();
+
+/**
+ * Checks if a node is or contains JSX, or a createElement call
+ */
+export function containsJsx(node: ts.Node): boolean {
+    if (
+        ts.isJsxElement(node) ||
+        ts.isJsxSelfClosingElement(node) ||
+        ts.isJsxFragment(node) ||
+        isCreateElementCall(node)
+    ) {
+        return true;
+    }
+    return ts.forEachChild(node, containsJsx) ?? false;
+}
+
+// The package whose `createElement` calls stand for JSX
+const REACT_MODULE = "@rbxts/react";
+
+// The checker createElement callees are resolved with, set by the block analyzer of the program being transformed
+let createElementTypeChecker: ts.TypeChecker | undefined;
+
+/**
+ * Sets the type checker used to resolve which function a createElement call invokes
+ */
+export function setCreateElementTypeChecker(typeChecker: ts.TypeChecker): void {
+    createElementTypeChecker = typeChecker;
+}
+
+/**
+ * Checks if a call is `React.createElement(...)`, or a bare `createElement(...)` imported from React. The callee is
+ * resolved, so a local function that happens to be named `createElement` is left alone.
+ */
+export function isCreateElementCall(node: ts.Node): node is ts.CallExpression {
+    if (!ts.isCallExpression(node) || node.arguments.length === 0) {
+        return false;
+    }
+
+    const callee = node.expression;
+    if (ts.isIdentifier(callee)) {
+        return callee.text === "createElement" && getReactImportName(callee) === "createElement";
+    }
+    if (
+        ts.isPropertyAccessExpression(callee) &&
+        ts.isIdentifier(callee.expression) &&
+        callee.name.text === "createElement"
+    ) {
+        // `import React from` or `import * as React from` the React package
+        return getReactImportName(callee.expression) === "default";
+    }
+    return false;
+}
+
+/**
+ * Gets the name an identifier is imported under from React (`"default"` for default and namespace imports), or
+ * undefined if it is not bound by such an import
+ */
+function getReactImportName(identifier: ts.Identifier): string | undefined {
+    const declaration = createElementTypeChecker?.getSymbolAtLocation(identifier)?.declarations?.[0];
+    if (!declaration) {
+        return undefined;
+    }
+
+    let importDeclaration: ts.Node | undefined;
+    let importedName: string;
+    if (ts.isImportSpecifier(declaration)) {
+        importDeclaration = declaration.parent.parent.parent;
+        importedName = (declaration.propertyName ?? declaration.name).text;
+    } else if (ts.isImportClause(declaration)) {
+        importDeclaration = declaration.parent;
+        importedName = "default";
+    } else if (ts.isNamespaceImport(declaration)) {
+        importDeclaration = declaration.parent.parent;
+        importedName = "default";
+    } else {
+        return undefined;
+    }
+
+    return ts.isImportDeclaration(importDeclaration) &&
+        ts.isStringLiteral(importDeclaration.moduleSpecifier) &&
+        importDeclaration.moduleSpecifier.text === REACT_MODULE
+        ? importedName
+        : undefined;
+}
+
+/**
+ * Reads a `React.createElement(type, props, ...children)` call as the JSX element it is equivalent to, so it gets the
+ * same analysis and transformation as JSX. Nested createElement children are read as child elements.
+ * The element is synthetic: its parent and text range are the call's, while props and children keep their own nodes.
+ * Returns undefined for calls JSX cannot express, such as a computed type, a spread argument or a props object with
+ * computed keys or methods.
+ */
+export function getCreateElementJsx(call: ts.CallExpression): JsxElementLike | undefined {
+    if (!createElementJsx.has(call)) {
+        createElementJsx.set(call, readCreateElementCall(call) ?? null);
+    }
+    return createElementJsx.get(call) ?? undefined;
+}
+
+/**
+ * Gets the createElement call a synthetic element was read from
+ */
+export function getCreateElementCall(node: JsxElementLike): ts.CallExpression | undefined {
+    return createElementCalls.get(node);
+}
+
+function readCreateElementCall(call: ts.CallExpression): JsxElementLike | undefined {
+    const [type, props, ...childArguments] = call.arguments;
+
+    const tagName = getCreateElementTagName(type);
+    if (!tagName) {
+        return undefined;
+    }
+
+    const attributes: ts.JsxAttributeLike[] = [];
+    if (props && !isEmptyExpression(props)) {
+        const propsObject = skipParentheses(props);
+        if (!ts.isObjectLiteralExpression(propsObject)) {
+            attributes.push(ts.factory.createJsxSpreadAttribute(props));
+        } else {
+            for (const property of propsObject.properties) {
+                if (ts.isSpreadAssignment(property)) {
+                    attributes.push(ts.factory.createJsxSpreadAttribute(property.expression));
+                    continue;
+                }
+
+                const name =
+                    ts.isPropertyAssignment(property) || ts.isShorthandPropertyAssignment(property)
+                        ? getStaticPropertyName(property.name)
+                        : undefined;
+                if (!name) {
+                    return undefined;
+                }
+
+                const value = ts.isPropertyAssignment(property) ? property.initializer : property.name;
+                attributes.push(
+                    ts.factory.createJsxAttribute(
+                        ts.factory.createIdentifier(name),
+                        ts.factory.createJsxExpression(undefined, value as ts.Expression),
+                    ),
+                );
+            }
+        }
+    }
+
+    const children: ts.JsxChild[] = [];
+    for (const argument of childArguments) {
+        if (ts.isSpreadElement(argument)) {
+            return undefined;
+        }
+
+        const childCall = skipParentheses(argument);
+        const childElement = isCreateElementCall(childCall) ? getCreateElementJsx(childCall) : undefined;
+        children.push(childElement ?? ts.factory.createJsxExpression(undefined, argument));
+    }
+
+    const jsxAttributes = ts.factory.createJsxAttributes(attributes);
+    let element: JsxElementLike;
+    if (children.length === 0) {
+        element = ts.factory.createJsxSelfClosingElement(tagName, undefined, jsxAttributes);
+        setSyntheticParent(jsxAttributes, element);
+    } else {
+        const openingElement = ts.factory.createJsxOpeningElement(tagName, undefined, jsxAttributes);
+        element = ts.factory.createJsxElement(openingElement, children, ts.factory.createJsxClosingElement(tagName));
+        setSyntheticParent(jsxAttributes, openingElement);
+        setSyntheticParent(openingElement, element);
+        setSyntheticParent(element.closingElement, element);
+    }
+
+    // Only the nodes created here are re-parented; props and children stay attached to the call
+    for (const attribute of attributes) {
+        setSyntheticParent(attribute, jsxAttributes);
+        if (ts.isJsxAttribute(attribute)) {
+            setSyntheticParent(attribute.name, attribute);
+            setSyntheticParent(attribute.initializer!, attribute);
+        }
+    }
+    for (const child of children) {
+        setSyntheticParent(child, element);
+    }
+    if (tagName.pos < 0) {
+        setSyntheticParent(tagName, element);
+    }
+
+    setSyntheticParent(element, call.parent);
+    ts.setTextRange(element, call);
+    createElementCalls.set(element, call);
+    return element;
+}
+
+/**
+ * Gets the JSX tag for a createElement type: a Roblox class name string reads as its intrinsic tag, and a component
+ * reference (`Counter` or `Ctx.Provider`) is used as is
+ */
+function getCreateElementTagName(type: ts.Expression): ts.JsxTagNameExpression | undefined {
+    if (ts.isStringLiteral(type) || ts.isNoSubstitutionTemplateLiteral(type)) {
+        const tag = type.text.toLowerCase();
+        const instanceName = robloxStaticDetector.getTagToInstanceNameMap().get(tag);
+        return type.text === tag || type.text === instanceName ? ts.factory.createIdentifier(tag) : undefined;
+    }
+
+    const isComponentReference = (expression: ts.Expression): boolean =>
+        ts.isIdentifier(expression) ||
+        (ts.isPropertyAccessExpression(expression) && isComponentReference(expression.expression));
+    if (isComponentReference(type)) {
+        // A lowercase identifier would read as an intrinsic tag rather than a variable
+        const name = jsxTagExpressionToString(type as ts.JsxTagNameExpression);
+        return name[0] !== name[0].toLowerCase() ? (type as ts.JsxTagNameExpression) : undefined;
+    }
+
+    return undefined;
+}
+
+function getStaticPropertyName(name: ts.PropertyName): string | undefined {
+    if (ts.isIdentifier(name)) {
+        return name.text;
+    }
+    if (ts.isStringLiteral(name) && /^[A-Za-z_$][\w$]*$/.test(name.text)) {
+        return name.text;
+    }
+    return undefined;
+}
+
+function isEmptyExpression(expression: ts.Expression): boolean {
+    const inner = skipParentheses(expression);
+    return inner.kind === ts.SyntaxKind.NullKeyword || (ts.isIdentifier(inner) && inner.text === "undefined");
+}
+
+function skipParentheses(expression: ts.Expression): ts.Expression {
+    while (ts.isParenthesizedExpression(expression)) {
+        expression = expression.expression;
+    }
+    return expression;
+}
+
+function setSyntheticParent(node: ts.Node, parent: ts.Node): void {
+    (node as { parent: ts.Node }).parent = parent;
+}
+
+/**
+ * Splits a conditional JSX expression into the conditions that pick a branch and the branches themselves.
+ * Handles ternaries (including chains such as `a ? <x/> : b ? <y/> : null`) and `cond && <x/>`.
+ * Returns undefined unless every branch is a JSX element or empty (null, undefined or false), with at least one element.
+ */
+export function getConditionalJsx(expr: ts.Expression): ConditionalJsxInfo | undefined {
+    const conditions: ts.Expression[] = [];
+    const branches: ConditionalJsxInfo["branches"] = [];
+
+    let current = expr;
+    while (ts.isParenthesizedExpression(current)) {
+        current = current.expression;
+    }
+
+    if (ts.isBinaryExpression(current) && current.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken) {
+        const element = getBranchElement(current.right);
+        if (!element) {
+            return undefined;
+        }
+        return { conditions: [current.left], branches: [element, undefined] };
+    }
+
+    while (ts.isConditionalExpression(current)) {
+        const element = getBranchElement(current.whenTrue);
+        if (element === null) {
+            return undefined;
+        }
+
+        conditions.push(current.condition);
+        branches.push(element);
+
+        current = current.whenFalse;
+        while (ts.isParenthesizedExpression(current)) {
+            current = current.expression;
+        }
+    }
+
+    if (conditions.length === 0) {
+        return undefined;
+    }
+
+    const fallback = getBranchElement(current);
+    if (fallback === null) {
+        return undefined;
+    }
+    branches.push(fallback);
+
+    return branches.some((branch) => branch !== undefined) ? { conditions, branches } : undefined;
+}
+
+/**
+ * Gets the JSX element of a branch, undefined for an empty branch, or null if the branch is anything else
+ */
+function getBranchElement(expr: ts.Expression): ts.JsxElement | ts.JsxSelfClosingElement | undefined | null {
+    let current = expr;
+    while (ts.isParenthesizedExpression(current)) {
+        current = current.expression;
+    }
+
+    if (ts.isJsxElement(current) || ts.isJsxSelfClosingElement(current)) {
+        return current;
+    }
+    if (isCreateElementCall(current)) {
+        return getCreateElementJsx(current) ?? null;
+    }
+
+    if (
+        current.kind === ts.SyntaxKind.NullKeyword ||
+        current.kind === ts.SyntaxKind.FalseKeyword ||
+        (ts.isIdentifier(current) && current.text === "undefined")
+    ) {
+        return undefined;
+    }
+
+    return null;
+}
+
+/**
+ * Detects `array.map((item, index) => <row/>)` whose row can be compiled into a keyed list block template.
+ * The callback must return a single JSX row, either as its expression body or as the last statement of its block body.
+ */
+export function getListJsx(expr: ts.Expression): ListJsxInfo | undefined {
+    let current = expr;
+    while (ts.isParenthesizedExpression(current)) {
+        current = current.expression;
+    }
+
+    if (
+        !ts.isCallExpression(current) ||
+        !ts.isPropertyAccessExpression(current.expression) ||
+        current.expression.name.text !== "map" ||
+        current.arguments.length !== 1
+    ) {
+        return undefined;
+    }
+
+    const callback = current.arguments[0];
+    if ((!ts.isArrowFunction(callback) && !ts.isFunctionExpression(callback)) || callback.parameters.length > 2) {
+        return undefined;
+    }
+
+    const row = getReturnedJsx(callback);
+    if (!row || !isListRowTemplate(row, true)) {
+        return undefined;
+    }
+
+    return { array: current.expression.expression, callback, row };
+}
+
+/**
+ * Checks if a JSX child expression compiles to a runtime primitive that React reconciles (a branch switch or
+ * a keyed list) rather than to a child edit of the enclosing block
+ */
+export function isReconciledChild(expr: ts.Expression): boolean {
+    return getConditionalJsx(expr) !== undefined || getListJsx(expr) !== undefined;
+}
+
+/**
+ * Gets the JSX a callback returns, if it always returns the same single element
+ */
+function getReturnedJsx(
+    callback: ts.ArrowFunction | ts.FunctionExpression,
+): ts.JsxElement | ts.JsxSelfClosingElement | undefined {
+    let returned: ts.Expression | undefined;
+
+    if (ts.isBlock(callback.body)) {
+        const statements = callback.body.statements;
+        const lastStatement = statements[statements.length - 1];
+        if (!lastStatement || !ts.isReturnStatement(lastStatement)) {
+            return undefined;
+        }
+
+        // Any other return (outside nested functions) could produce a different row
+        const hasEarlyReturn = (node: ts.Node): boolean => {
+            if (ts.isFunctionLike(node)) {
+                return false;
+            }
+            if (ts.isReturnStatement(node) && node !== lastStatement) {
+                return true;
+            }
+            return ts.forEachChild(node, hasEarlyReturn) ?? false;
+        };
+        if (ts.forEachChild(callback.body, hasEarlyReturn)) {
+            return undefined;
+        }
+
+        returned = lastStatement.expression;
+    } else {
+        returned = callback.body;
+    }
+
+    while (returned && ts.isParenthesizedExpression(returned)) {
+        returned = returned.expression;
+    }
+
+    if (returned && isCreateElementCall(returned)) {
+        return getCreateElementJsx(returned);
+    }
+    return returned && (ts.isJsxElement(returned) || ts.isJsxSelfClosingElement(returned)) ? returned : undefined;
+}
+
+/**
+ * Checks if a row can be built from a static skeleton plus holes: intrinsic elements only, no spreads, refs or
+ * explicit children, a key on the root only, and no expression children
+ * Event and Change handlers are left to React too, which connects them and calls them with the Instance.
+ */
+function isListRowTemplate(element: ts.JsxElement | ts.JsxSelfClosingElement, isRoot: boolean): boolean {
+    const tagName = ts.isJsxElement(element) ? element.openingElement.tagName : element.tagName;
+    if (!ts.isIdentifier(tagName) || tagName.text[0] !== tagName.text[0].toLowerCase()) {
+        return false;
+    }
+
+    const attributes = ts.isJsxElement(element)
+        ? element.openingElement.attributes.properties
+        : element.attributes.properties;
+    for (const attribute of attributes) {
+        if (!ts.isJsxAttribute(attribute)) {
+            return false;
+        }
+
+        const name = ts.isIdentifier(attribute.name) ? attribute.name.text : attribute.name.getText();
+        if (
+            name === "ref" ||
+            name === "children" ||
+            name === "Event" ||
+            name === "Change" ||
+            (name === "key" && !isRoot)
+        ) {
+            return false;
+        }
+    }
+
+    if (ts.isJsxElement(element)) {
+        for (const child of getJsxChildren(element)) {
+            if (ts.isJsxText(child)) {
+                if (!child.containsOnlyTriviaWhiteSpaces) {
+                    return false;
+                }
+            } else if (ts.isJsxElement(child) || ts.isJsxSelfClosingElement(child)) {
+                if (!isListRowTemplate(child, false)) {
+                    return false;
+                }
+            } else if (!ts.isJsxExpression(child) || child.expression) {
+                return false;
+            }
+        }
+    }
+
+    return true;
+}
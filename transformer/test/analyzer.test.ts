@@ -156,7 +156,7 @@ describe("BlockAnalyzer", () => {
             expect(blockInfo.dependencies).toHaveLength(2);
         });
 
-        it("should extract property access expressions", () => {
+        it("should extract property access expressions as access paths", () => {
             const element = createJsxElement("textlabel", {
                 Text: createPropertyAccess("props", "title"),
                 Size: createPropertyAccess("config", "size"),
@@ -164,8 +164,41 @@ describe("BlockAnalyzer", () => {
 
             const blockInfo = analyzer.analyzeJsxElement(element);
 
-            expect(blockInfo.dependencies).toContain("props");
-            expect(blockInfo.dependencies).toContain("config");
+            expect(blockInfo.dependencies).toContain("props.title");
+            expect(blockInfo.dependencies).toContain("config.size");
+        });
+
+        it("should fall back to the object for optional chains and computed keys", () => {
+            const element = createJsxElement("textlabel", {
+                Text: ts.factory.createPropertyAccessChain(
+                    createPropertyAccess("props", "tags"),
+                    ts.factory.createToken(ts.SyntaxKind.QuestionDotToken),
+                    "label",
+                ),
+                Size: ts.factory.createElementAccessExpression(
+                    createPropertyAccess("config", "sizes"),
+                    createIdentifier("index"),
+                ),
+            });
+
+            const blockInfo = analyzer.analyzeJsxElement(element);
+
+            expect(blockInfo.dependencies).toEqual(["props.tags", "config.sizes", "index"]);
+        });
+
+        it("should extract this-rooted member paths", () => {
+            const element = createJsxElement("textlabel", {
+                Text: ts.factory.createPropertyAccessExpression(
+                    ts.factory.createPropertyAccessExpression(ts.factory.createThis(), "props"),
+                    "title",
+                ),
+                TextSize: createCallExpression(createIdentifier("getSize"), [ts.factory.createThis()]),
+            });
+
+            const blockInfo = analyzer.analyzeJsxElement(element);
+
+            expect(blockInfo.isStatic).toBe(false);
+            expect(blockInfo.dependencies).toEqual(["this.props.title", "getSize", "this"]);
         });
 
         it("should handle function calls with dependencies", () => {
@@ -288,6 +321,25 @@ describe("BlockAnalyzer", () => {
             expect(blockInfo.isStatic).toBe(false);
             expect(blockInfo.dependencies).toContain("isVisible");
         });
+
+        it("should detect nested JSX and callbacks in props as dynamic", () => {
+            const element = createJsxElement("Card", {
+                icon: createJsxElement("imagelabel", { Image: createIdentifier("image") }),
+                render: ts.factory.createArrowFunction(
+                    undefined,
+                    undefined,
+                    [],
+                    undefined,
+                    ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+                    createIdentifier("label"),
+                ),
+            });
+
+            const blockInfo = analyzer.analyzeJsxElement(element);
+
+            expect(blockInfo.dynamicProps).toEqual(["icon", "render"]);
+            expect(blockInfo.dependencies).toEqual(expect.arrayContaining(["Card", "image", "label"]));
+        });
     });
 
     describe("Optimization Decisions", () => {
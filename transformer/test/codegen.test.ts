@@ -5,8 +5,10 @@ import {
     createMemoizedBlockCall,
     createPropsObject,
     createStaticElementCall,
+    createStableHash,
     generateBlockId,
     generateStaticPropsId,
+    getDependencyParameterNames,
 } from "../src/codegen";
 import type { PropInfo } from "../src/types";
 
@@ -61,6 +63,23 @@ describe("Code Generation", () => {
             expect(countProp.initializer).toBe(numberLiteral);
             expect(handlerProp.initializer).toBe(identifier);
         });
+
+        it("should emit spreads in place so later props override them", () => {
+            const bag = ts.factory.createIdentifier("layoutProps");
+
+            const props: PropInfo[] = [
+                { name: "Visible", value: ts.factory.createTrue(), isStatic: true },
+                { name: "...", value: bag, isStatic: false, isSpread: true },
+                { name: "Size", value: ts.factory.createIdentifier("size"), isStatic: false },
+            ];
+
+            const result = createPropsObject(props);
+
+            expect(ts.isPropertyAssignment(result.properties[0])).toBe(true);
+            expect(ts.isSpreadAssignment(result.properties[1])).toBe(true);
+            expect((result.properties[1] as ts.SpreadAssignment).expression).toBe(bag);
+            expect(ts.isPropertyAssignment(result.properties[2])).toBe(true);
+        });
     });
 
     describe("createDependenciesArray", () => {
@@ -88,29 +107,65 @@ describe("Code Generation", () => {
         });
     });
 
+    describe("getDependencyParameterNames", () => {
+        it("should name path parameters after their path and keep identifiers", () => {
+            const names = getDependencyParameterNames(["props.name", "count", "this"], new Set());
+
+            expect([...names]).toEqual([
+                ["props.name", "props_name"],
+                ["count", "count"],
+                ["this", "_this"],
+            ]);
+        });
+
+        it("should give paths that join to the same name distinct parameters", () => {
+            const names = getDependencyParameterNames(["a.b_c", "a_b.c", "a_b_c"], new Set());
+
+            expect(names.get("a_b_c")).toBe("a_b_c");
+            expect(names.get("a.b_c")).toBe("a_b_c_1");
+            expect(names.get("a_b.c")).toBe("a_b_c_2");
+        });
+
+        it("should not take names that are reserved", () => {
+            const names = getDependencyParameterNames(["props.name"], new Set(["props_name", "props_name_1"]));
+
+            expect(names.get("props.name")).toBe("props_name_2");
+        });
+    });
+
     describe("ID Generation", () => {
-        it("should generate unique static props IDs", () => {
-            const id1 = generateStaticPropsId("textlabel");
-            const id2 = generateStaticPropsId("textlabel");
-            const id3 = generateStaticPropsId("textbutton");
+        it("should generate stable static props IDs per seed", () => {
+            const id1 = generateStaticPropsId("textlabel", "src/app.tsx:10:abc");
+            const id2 = generateStaticPropsId("textlabel", "src/app.tsx:10:abc");
+            const id3 = generateStaticPropsId("textlabel", "src/app.tsx:42:def");
+            const id4 = generateStaticPropsId("textbutton", "src/app.tsx:10:abc");
 
             expect(id1).toMatch(/^STATIC_PROPS_TEXTLABEL_[a-z0-9]{6}$/);
-            expect(id2).toMatch(/^STATIC_PROPS_TEXTLABEL_[a-z0-9]{6}$/);
-            expect(id3).toMatch(/^STATIC_PROPS_TEXTBUTTON_[a-z0-9]{6}$/);
+            expect(id3).toMatch(/^STATIC_PROPS_TEXTLABEL_[a-z0-9]{6}$/);
+            expect(id4).toMatch(/^STATIC_PROPS_TEXTBUTTON_[a-z0-9]{6}$/);
 
-            expect(id1).not.toBe(id2); // Should be unique
+            expect(id1).toBe(id2); // Same source site, same ID
+            expect(id1).not.toBe(id3); // Different source site, different ID
         });
 
-        it("should generate unique block IDs", () => {
-            const id1 = generateBlockId("Counter");
-            const id2 = generateBlockId("Counter");
-            const id3 = generateBlockId("Button");
+        it("should generate stable block IDs per seed", () => {
+            const id1 = generateBlockId("Counter", "src/counter.tsx:5:abc");
+            const id2 = generateBlockId("Counter", "src/counter.tsx:5:abc");
+            const id3 = generateBlockId("Counter", "src/other.tsx:5:abc");
+            const id4 = generateBlockId("Button", "src/counter.tsx:5:abc");
 
             expect(id1).toMatch(/^dynamic_Counter_[a-z0-9]{9}$/);
-            expect(id2).toMatch(/^dynamic_Counter_[a-z0-9]{9}$/);
-            expect(id3).toMatch(/^dynamic_Button_[a-z0-9]{9}$/);
+            expect(id3).toMatch(/^dynamic_Counter_[a-z0-9]{9}$/);
+            expect(id4).toMatch(/^dynamic_Button_[a-z0-9]{9}$/);
+
+            expect(id1).toBe(id2);
+            expect(id1).not.toBe(id3);
+        });
 
-            expect(id1).not.toBe(id2); // Should be unique
+        it("should hash the same input to the same value", () => {
+            expect(createStableHash("hello")).toBe(createStableHash("hello"));
+            expect(createStableHash("hello")).not.toBe(createStableHash("hello!"));
+            expect(createStableHash("hello", 12)).toMatch(/^[a-z0-9]{12}$/);
         });
     });
 
@@ -0,0 +1,75 @@
+import * as ts from "typescript";
+import { describe, expect, it } from "vitest";
+import { createConstantLiteral, evaluateConstantExpression, foldConstantExpression } from "../src/constant-evaluator";
+
+function parseExpression(text: string): ts.Expression {
+    const sourceFile = ts.createSourceFile("test.ts", `(${text});`, ts.ScriptTarget.Latest, true);
+    const statement = sourceFile.statements[0] as ts.ExpressionStatement;
+    return (statement.expression as ts.ParenthesizedExpression).expression;
+}
+
+function evaluate(text: string) {
+    return evaluateConstantExpression(parseExpression(text));
+}
+
+function print(expr: ts.Expression): string {
+    const sourceFile = ts.createSourceFile("test.ts", "", ts.ScriptTarget.Latest);
+    return ts.createPrinter().printNode(ts.EmitHint.Expression, expr, sourceFile);
+}
+
+describe("Constant Evaluator", () => {
+    describe("evaluateConstantExpression", () => {
+        it("should evaluate literals, operators and type-only wrappers", () => {
+            expect(evaluate("-5")).toEqual({ value: -5 });
+            expect(evaluate("1 / 3")).toEqual({ value: 1 / 3 });
+            expect(evaluate('"a" + "b" + 1')).toEqual({ value: "ab1" });
+            expect(evaluate("`x${1}y${'z'}`")).toEqual({ value: "x1yz" });
+            expect(evaluate("((2 ** 3) as number)!")).toEqual({ value: 8 });
+            expect(evaluate("(4 satisfies number) > 3 ? 'big' : 'small'")).toEqual({ value: "big" });
+            expect(evaluate("null ?? 0")).toEqual({ value: 0 });
+            expect(evaluate("!0 && 'yes'")).toEqual({ value: "yes" });
+        });
+
+        it("should evaluate Luau math functions with Luau semantics", () => {
+            expect(evaluate("math.floor(10.7)")).toEqual({ value: 10 });
+            expect(evaluate("math.clamp(15, 0, 10)")).toEqual({ value: 10 });
+            expect(evaluate("math.round(-2.5)")).toEqual({ value: -3 });
+            expect(evaluate("math.max(1, -4, 3)")).toEqual({ value: 3 });
+        });
+
+        it("should reject forms that differ between Luau and JavaScript or are not constant", () => {
+            // Luau's `%` floors, tostring of floats prints fewer digits, and clamp errors when min > max
+            expect(evaluate("-7 % 3")).toBeUndefined();
+            expect(evaluate('"x" + 0.1')).toBeUndefined();
+            expect(evaluate("math.clamp(5, 10, 0)")).toBeUndefined();
+            expect(evaluate("1 | 2")).toBeUndefined();
+            expect(evaluate("1 == 1")).toBeUndefined();
+            expect(evaluate("-props.angle")).toBeUndefined();
+            expect(evaluate("math.random(1, 10)")).toBeUndefined();
+        });
+
+        it("should resolve references through the given resolver", () => {
+            const resolve = (expr: ts.Identifier | ts.PropertyAccessExpression) =>
+                ts.isIdentifier(expr) && expr.text === "GAP" ? ts.factory.createNumericLiteral(4) : undefined;
+
+            expect(evaluateConstantExpression(parseExpression("GAP * 2"), resolve)).toEqual({ value: 8 });
+            expect(evaluateConstantExpression(parseExpression("OTHER * 2"), resolve)).toBeUndefined();
+        });
+    });
+
+    describe("foldConstantExpression", () => {
+        it("should fold constant expressions to literals", () => {
+            expect(print(foldConstantExpression(parseExpression("-(2 * 3)")))).toBe("-6");
+            expect(print(foldConstantExpression(parseExpression("`a${1}`")))).toBe('"a1"');
+        });
+
+        it("should leave expressions without a writable literal unchanged", () => {
+            const huge = parseExpression("math.huge");
+            const division = parseExpression("1 / 0");
+
+            expect(foldConstantExpression(huge)).toBe(huge);
+            expect(foldConstantExpression(division)).toBe(division);
+            expect(createConstantLiteral(NaN)).toBeUndefined();
+        });
+    });
+});
@@ -141,14 +141,78 @@ function Component({ color, onClick, text }: { color: string; onClick: () => voi
         expect(clickEdit?.type).toBe(EditType.Event);
     });
 
+    it("should record every dependency an edit reads", () => {
+        const code = `
+function Component({ name, value, color }: { name: string; value: number; color: Color3 }) {
+    return (
+        <textlabel
+            Text={\`\${name}: \${value}\`}
+            BackgroundColor3={color}
+        />
+    );
+}`;
+
+        const { program, sourceFile, typeChecker } = createProgram(code);
+        const context = {} as ts.TransformationContext;
+        const analyzer = new BlockAnalyzer(typeChecker, context, program);
+
+        const jsxElement = findJsxElement(sourceFile);
+        expect(jsxElement).toBeTruthy();
+
+        const patchInfo = analyzer.generatePatchInstructions(jsxElement!);
+        const edits = patchInfo.patchInstructions[0].edits;
+
+        const textEdit = edits.find((edit) => "propName" in edit && edit.propName === "Text");
+        expect(textEdit?.dependencyKeys).toEqual(["name", "value"]);
+
+        const colorEdit = edits.find((edit) => "propName" in edit && edit.propName === "BackgroundColor3");
+        expect(colorEdit?.dependencyKeys).toEqual(["color"]);
+    });
+
+    it("should record the type of every dependency an edit reads", () => {
+        const code = `
+function Component({ name, value }: { name: string; value: number }) {
+    return (
+        <frame>
+            <textlabel Text={\`\${name}: \${value}\`} LayoutOrder={value} />
+        </frame>
+    );
+}`;
+
+        const { program, sourceFile, typeChecker } = createProgram(code);
+        const context = {} as ts.TransformationContext;
+        const analyzer = new BlockAnalyzer(typeChecker, context, program);
+
+        const jsxElement = findJsxElement(sourceFile);
+        expect(jsxElement).toBeTruthy();
+
+        const patchInfo = analyzer.generatePatchInstructions(jsxElement!);
+        const printer = ts.createPrinter();
+        const typeOf = (dep: string) => {
+            const typeNode = patchInfo.dependencyTypes?.get(dep)?.type;
+            return typeNode && printer.printNode(ts.EmitHint.Unspecified, typeNode, sourceFile);
+        };
+
+        const editDependencies = patchInfo.patchInstructions.flatMap((instruction) =>
+            instruction.edits.flatMap((edit) => edit.dependencyKeys),
+        );
+        expect(new Set(editDependencies)).toEqual(new Set(["name", "value"]));
+        expect(typeOf("name")).toBe("string");
+        expect(typeOf("value")).toBe("number");
+    });
+
     it("should generate patch instructions for dynamic children", () => {
         const code = `
 function Component({ items }: { items: string[] }) {
     return (
         <frame>
-            {items.map(item => <textlabel Text={item} key={item} />)}
+            {items.map(item => <Row text={item} key={item} />)}
         </frame>
     );
+}
+
+function Row({ text }: { text: string }) {
+    return <textlabel Text={text} />;
 }`;
 
         const { program, sourceFile, typeChecker } = createProgram(code);
@@ -179,9 +243,61 @@ function Component({ items }: { items: string[] }) {
             (edit) => edit.type === EditType.Child,
         ) as ChildEdit | undefined;
 
-        expect(childInstruction!.elementPath).toEqual([0]);
+        // Paths are relative to the block root, which is []
+        expect(childInstruction!.elementPath).toEqual([]);
         expect(childEdit).toBeDefined();
         expect(childEdit!.index).toBe(0);
-        expect(childEdit!.path).toEqual([0, 0]);
+        expect(childEdit!.path).toEqual([0]);
+    });
+
+    it("leaves conditional JSX children to the branch switch instead of a child edit", () => {
+        const code = `
+function Component({ open, title }: { open: boolean; title: string }) {
+    return (
+        <frame>
+            <textlabel Text={title} />
+            {open ? <textlabel Text={title} /> : null}
+        </frame>
+    );
+}`;
+
+        const { program, sourceFile, typeChecker } = createProgram(code);
+        const context = {} as ts.TransformationContext;
+        const analyzer = new BlockAnalyzer(typeChecker, context, program);
+
+        const jsxElement = findJsxElement(sourceFile);
+        expect(jsxElement).toBeTruthy();
+
+        const patchInfo = analyzer.generatePatchInstructions(jsxElement!);
+        const edits = patchInfo.patchInstructions.flatMap((instruction) => instruction.edits);
+
+        expect(edits.some((edit) => edit.type === EditType.Child)).toBe(false);
+        expect(patchInfo.dependencies).toEqual(["title", "open"]);
+    });
+
+    it("leaves .map rows with an intrinsic template to the list block instead of a child edit", () => {
+        const code = `
+function Component({ items, selected }: { items: { id: number; name: string }[]; selected: number }) {
+    return (
+        <frame>
+            {items.map((item) => (
+                <textlabel key={item.id} Text={item.name} TextTransparency={item.id === selected ? 0 : 0.5} />
+            ))}
+        </frame>
+    );
+}`;
+
+        const { program, sourceFile, typeChecker } = createProgram(code);
+        const context = {} as ts.TransformationContext;
+        const analyzer = new BlockAnalyzer(typeChecker, context, program);
+
+        const jsxElement = findJsxElement(sourceFile);
+        expect(jsxElement).toBeTruthy();
+
+        const patchInfo = analyzer.generatePatchInstructions(jsxElement!);
+        const edits = patchInfo.patchInstructions.flatMap((instruction) => instruction.edits);
+
+        expect(edits.some((edit) => edit.type === EditType.Child)).toBe(false);
+        expect(patchInfo.dependencies).toEqual(["items", "selected"]);
     });
 });
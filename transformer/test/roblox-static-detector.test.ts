@@ -104,4 +104,35 @@ describe("RobloxStaticDetector", () => {
             expect(robloxStaticDetector.isStaticRobloxCall(callExpression!)).toBe(true);
         });
     });
+
+    describe("getCallPurity", () => {
+        it("should classify data type constructors and library functions as pure", () => {
+            expect(robloxStaticDetector.getCallPurity(createNewExpression("new UDim2(1, 0, 0, 40)")!)).toBe("pure");
+            expect(robloxStaticDetector.getCallPurity(createNewExpression("new UDim(0, 8)")!)).toBe("pure");
+            expect(robloxStaticDetector.getCallPurity(createCallExpression("math.floor(1.5)")!)).toBe("pure");
+            expect(robloxStaticDetector.getCallPurity(createCallExpression("DateTime.fromUnixTimestamp(0)")!)).toBe(
+                "pure",
+            );
+        });
+
+        it("should not treat calls with side effects or changing results as static", () => {
+            for (const code of ['Instance.new("Frame")', "os.clock()", "DateTime.now()", "math.random(1, 10)"]) {
+                const callExpression = createCallExpression(code);
+                expect(robloxStaticDetector.getCallPurity(callExpression!)).toBe("impure");
+                expect(robloxStaticDetector.isStaticRobloxCall(callExpression!)).toBe(false);
+            }
+            expect(robloxStaticDetector.isStaticRobloxNew(createNewExpression("new Random(1)")!)).toBe(false);
+        });
+
+        it("should not hoist deterministic calls that are costly", () => {
+            const callExpression = createCallExpression("math.noise(1, 2, 3)");
+            expect(robloxStaticDetector.getCallPurity(callExpression!)).toBe("costly");
+            expect(robloxStaticDetector.isStaticRobloxCall(callExpression!)).toBe(false);
+        });
+
+        it("should leave calls that are not Roblox globals unclassified", () => {
+            expect(robloxStaticDetector.getCallPurity(createCallExpression("tick()")!)).toBeUndefined();
+            expect(robloxStaticDetector.getCallPurity(createCallExpression("format(value)")!)).toBeUndefined();
+        });
+    });
 });
@@ -0,0 +1,409 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { EditType } from "../src/types";
+
+/**
+ * Runs the Luau runtime's source under Node, with just enough of the Roblox globals, a mock Instance tree and a
+ * minimal React host to render a component, throw a render away or commit it, the way React does
+ */
+
+type Props = Record<string, unknown>;
+type Ref = ((instance: MockInstance | undefined) => void) | { current?: MockInstance } | undefined;
+
+interface MockElement {
+    type: unknown;
+    key?: unknown;
+    ref?: Ref;
+    props: Props;
+}
+
+class MockInstance {
+    public Parent: MockInstance | undefined;
+    private children: MockInstance[] = [];
+
+    constructor(public ClassName: string) {}
+
+    GetChildren(): MockInstance[] {
+        return [...this.children];
+    }
+
+    IsA(className: string): boolean {
+        return this.ClassName === className;
+    }
+
+    Destroy(): void {
+        this.setParent(undefined);
+        for (const child of this.GetChildren()) {
+            child.Destroy();
+        }
+    }
+
+    setParent(parent: MockInstance | undefined): void {
+        if (this.Parent !== undefined) {
+            this.Parent.children = this.Parent.children.filter((child) => child !== this);
+        }
+        this.Parent = parent;
+        parent?.children.push(this);
+    }
+}
+
+function installRobloxGlobals(): void {
+    const globals = globalThis as Record<string, unknown>;
+    const luaType = (value: unknown) =>
+        value === undefined || value === null
+            ? "nil"
+            : typeof value === "object"
+              ? value instanceof MockInstance
+                  ? "Instance"
+                  : "table"
+              : typeof value;
+
+    globals._G = {};
+    globals.typeIs = (value: unknown, typeName: string) => luaType(value) === typeName;
+    globals.typeOf = luaType;
+    globals.tostring = (value: unknown) => String(value);
+    globals.tonumber = (value: unknown) => (Number.isNaN(Number(value)) ? undefined : Number(value));
+    globals.pairs = (value: object) => (value instanceof Map ? value.entries() : Object.entries(value));
+    globals.error = (message: string) => {
+        throw new Error(message);
+    };
+    globals.os = { clock: () => performance.now() / 1000 };
+    globals.math = Math;
+    globals.table = { clone: (value: unknown[]) => [...value] };
+    globals.Instance = MockInstance;
+}
+
+const NativeMap = Map;
+const NativeSet = Set;
+
+/** Subclasses a keyed collection so `size` is a method, as it is in roblox-ts, while the native getter keeps working */
+function withSizeMethod<T extends MapConstructor | SetConstructor>(Base: T): T {
+    const Sized = class extends (Base as MapConstructor) {};
+    Object.defineProperty(Sized.prototype, "size", {
+        value(this: Map<unknown, unknown>) {
+            return Reflect.get(Base.prototype, "size", this) as number;
+        },
+    });
+    return Sized as unknown as T;
+}
+
+const LuauMap = withSizeMethod(Map);
+const LuauSet = withSizeMethod(Set);
+
+/**
+ * Adds what roblox-ts expects of arrays, maps, sets and strings, which compile to Luau operators and functions
+ * Only the runtime may see these while they are installed: the test runner reads the native `size` of its own maps
+ */
+function installLuauMethods(): void {
+    const globals = globalThis as Record<string, unknown>;
+    globals.Map = LuauMap;
+    globals.Set = LuauSet;
+    for (const prototype of [Array.prototype, String.prototype]) {
+        Object.defineProperty(prototype, "size", {
+            configurable: true,
+            value(this: unknown[] | string) {
+                return this.length;
+            },
+        });
+    }
+    Object.defineProperty(String.prototype, "sub", {
+        configurable: true,
+        value(this: string, start: number, finish?: number) {
+            return this.slice(start - 1, finish);
+        },
+    });
+}
+
+function removeLuauMethods(): void {
+    const globals = globalThis as Record<string, unknown>;
+    globals.Map = NativeMap;
+    globals.Set = NativeSet;
+    for (const prototype of [Array.prototype, String.prototype]) {
+        delete (prototype as unknown as Props).size;
+    }
+    delete (String.prototype as unknown as Props).sub;
+}
+
+interface HookSlot {
+    value?: unknown;
+    deps?: unknown[];
+    cleanup?: (() => void) | void;
+}
+
+interface PendingEffect {
+    slot: HookSlot;
+    create: () => (() => void) | void;
+    deps?: unknown[];
+}
+
+/**
+ * A React host for a single function component, so a test decides when a render commits
+ * Rendered Instances are mounted under `root`; refs attach before layout effects run, as they do in React
+ */
+class MockHost {
+    public readonly root = new MockInstance("Folder");
+    private slots: HookSlot[] = [];
+    private slotIndex = 0;
+    private pendingEffects: PendingEffect[] = [];
+    private committedElement: MockElement | undefined;
+    private committedInstance: MockInstance | undefined;
+
+    static current: MockHost | undefined;
+
+    render<P>(component: (props: P) => MockElement, props: P): MockElement {
+        MockHost.current = this;
+        this.slotIndex = 0;
+        this.pendingEffects = [];
+        try {
+            return component(props);
+        } finally {
+            MockHost.current = undefined;
+        }
+    }
+
+    /** Commits a rendered element: reconciles the Instances, attaches refs, then runs the changed layout effects */
+    commit(element: MockElement): void {
+        this.committedInstance = this.reconcile(this.committedElement, this.committedInstance, element, this.root);
+        this.committedElement = element;
+        for (const effect of this.pendingEffects) {
+            effect.slot.cleanup?.();
+            effect.slot.deps = effect.deps;
+            effect.slot.cleanup = effect.create();
+        }
+        this.pendingEffects = [];
+    }
+
+    /** Unmounts the rendered tree, running every effect cleanup */
+    unmount(): void {
+        for (const slot of this.slots) {
+            slot.cleanup?.();
+        }
+        if (this.committedElement !== undefined) setRef(this.committedElement.ref, undefined);
+        this.committedInstance?.Destroy();
+        this.slots = [];
+        this.committedElement = undefined;
+        this.committedInstance = undefined;
+    }
+
+    nextSlot(): HookSlot {
+        const slot = (this.slots[this.slotIndex] ??= {});
+        this.slotIndex++;
+        return slot;
+    }
+
+    queueEffect(create: () => (() => void) | void, deps?: unknown[]): void {
+        const slot = this.nextSlot();
+        const unchanged =
+            deps !== undefined &&
+            slot.deps !== undefined &&
+            deps.length === slot.deps.length &&
+            deps.every((dep, index) => Object.is(dep, slot.deps![index]));
+        if (!unchanged) {
+            this.pendingEffects.push({ slot, create, deps });
+        }
+    }
+
+    private reconcile(
+        previous: MockElement | undefined,
+        instance: MockInstance | undefined,
+        next: MockElement,
+        parent: MockInstance,
+    ): MockInstance {
+        if (previous === next && instance !== undefined) return instance;
+
+        if (
+            previous === undefined ||
+            instance === undefined ||
+            previous.type !== next.type ||
+            previous.key !== next.key
+        ) {
+            if (previous !== undefined) setRef(previous.ref, undefined);
+            instance?.Destroy();
+            return this.mount(next, parent);
+        }
+
+        for (const [name, value] of Object.entries(next.props)) {
+            if (name !== "children" && previous.props[name] !== value) {
+                (instance as unknown as Props)[name] = value;
+            }
+        }
+        const previousChildren = getChildElements(previous);
+        const children = instance.GetChildren();
+        getChildElements(next).forEach((child, index) => {
+            this.reconcile(previousChildren[index], children[index], child, instance);
+        });
+        if (previous.ref !== next.ref) {
+            setRef(previous.ref, undefined);
+            setRef(next.ref, instance);
+        }
+        return instance;
+    }
+
+    private mount(element: MockElement, parent: MockInstance): MockInstance {
+        const instance = new MockInstance(element.type as string);
+        for (const [name, value] of Object.entries(element.props)) {
+            if (name !== "children") {
+                (instance as unknown as Props)[name] = value;
+            }
+        }
+        for (const child of getChildElements(element)) {
+            this.mount(child, instance);
+        }
+        instance.setParent(parent);
+        setRef(element.ref, instance);
+        return instance;
+    }
+}
+
+function getChildElements(element: MockElement): MockElement[] {
+    const children = element.props.children;
+    if (children === undefined) return [];
+    return (Array.isArray(children) ? children : [children]) as MockElement[];
+}
+
+function setRef(ref: Ref, instance: MockInstance | undefined): void {
+    if (typeof ref === "function") {
+        ref(instance);
+    } else if (ref !== undefined) {
+        ref.current = instance;
+    }
+}
+
+function currentHost(): MockHost {
+    if (MockHost.current === undefined) throw new Error("Hooks can only be called while the host renders");
+    return MockHost.current;
+}
+
+function createElement(type: unknown, config?: Props, ...children: unknown[]): MockElement {
+    const { key, ref, ...props } = config ?? {};
+    if (children.length > 0) {
+        props.children = children.length === 1 ? children[0] : children;
+    }
+    return { type, key, ref: ref as Ref, props };
+}
+
+function cloneElement(element: MockElement, overrides: Props): MockElement {
+    const { key, ref, ...props } = overrides;
+    return {
+        type: element.type,
+        key: key ?? element.key,
+        ref: "ref" in overrides ? (ref as Ref) : element.ref,
+        props: { ...element.props, ...props },
+    };
+}
+
+// The runtime imports @rbxts/react from its own package, whose entry point is Luau
+vi.mock("../../runtime/node_modules/@rbxts/react", () => {
+    const useRef = <T>(initialValue: T) => {
+        const slot = currentHost().nextSlot();
+        slot.value ??= { current: initialValue };
+        return slot.value as { current: T };
+    };
+    const useLayoutEffect = (create: () => (() => void) | void, deps?: unknown[]) => {
+        currentHost().queueEffect(create, deps);
+    };
+    const React = {
+        createElement,
+        cloneElement,
+        memo: (component: unknown) => component,
+        Fragment: "Fragment",
+        useRef,
+        useLayoutEffect,
+        useEffect: useLayoutEffect,
+    };
+    return { default: React, ...React };
+});
+
+type Runtime = typeof import("../../runtime/src/index");
+let runtime: Runtime;
+
+beforeAll(async () => {
+    installRobloxGlobals();
+    // The runtime creates some of its maps when it loads
+    installLuauMethods();
+    runtime = await import("../../runtime/src/index");
+    removeLuauMethods();
+});
+
+describe("useFinePatchBlock at runtime", () => {
+    let host: MockHost;
+
+    beforeEach(() => {
+        installLuauMethods();
+        host = new MockHost();
+    });
+
+    afterEach(() => {
+        host.unmount();
+        removeLuauMethods();
+    });
+
+    interface LabelProps {
+        text: string;
+        blockKey?: string;
+    }
+
+    /** Renders a text label whose Text edit has a value getter, so the block patches it without re-rendering */
+    function Label({ text, blockKey }: LabelProps): MockElement {
+        return runtime.useFinePatchBlock(
+            (text: string) => createElement("TextLabel", { Text: text }) as never,
+            [text],
+            () => [
+                {
+                    elementPath: [],
+                    edits: [
+                        {
+                            type: EditType.Attribute,
+                            propName: "Text",
+                            dependencyKeys: ["text"],
+                            dependencyIndices: [0],
+                            value: (text: string) => text,
+                        },
+                    ],
+                },
+            ],
+            "label",
+            () => ["text"],
+            blockKey !== undefined ? { key: blockKey } : undefined,
+        ) as never;
+    }
+
+    function getLabel(): MockInstance & { Text?: string } {
+        const [label] = host.root.GetChildren();
+        return label;
+    }
+
+    it("patches Instances with the dependencies of committed renders only", () => {
+        host.commit(host.render(Label, { text: "first" }));
+        const label = getLabel();
+        expect(label.Text).toBe("first");
+
+        // React can throw a render away, e.g. when a concurrent update interrupts it
+        host.render(Label, { text: "discarded" });
+        expect(label.Text).toBe("first");
+
+        host.commit(host.render(Label, { text: "second" }));
+        expect(getLabel()).toBe(label);
+        expect(label.Text).toBe("second");
+
+        // Committing the same values again leaves the block alone
+        host.commit(host.render(Label, { text: "second" }));
+        expect(label.Text).toBe("second");
+        expect(runtime.getLiveBlocks("label")).toHaveLength(1);
+    });
+
+    it("keeps the committed block when a render with a new key is thrown away", () => {
+        host.commit(host.render(Label, { text: "first", blockKey: "a" }));
+        const label = getLabel();
+        const [block] = runtime.getLiveBlocks("label");
+
+        host.render(Label, { text: "discarded", blockKey: "b" });
+        host.commit(host.render(Label, { text: "second", blockKey: "a" }));
+        host.commit(host.render(Label, { text: "third", blockKey: "a" }));
+
+        expect(getLabel()).toBe(label);
+        expect(label.Text).toBe("third");
+        expect(runtime.getLiveBlocks("label")).toHaveLength(1);
+        expect(runtime.getLiveBlocks("label")[0]).toBe(block);
+        expect(block.l).toBe(label);
+    });
+});
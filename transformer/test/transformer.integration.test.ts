@@ -2,7 +2,7 @@ import * as ts from "typescript";
 import { describe, expect, it } from "vitest";
 import decillionTransformer from "../src/index";
 
-function createProgramWithSource(code: string) {
+function createProgramWithSource(code: string, compilerOptions: ts.CompilerOptions = {}) {
     const sourceFile = ts.createSourceFile("test.tsx", code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
 
     const program = ts.createProgram(
@@ -12,6 +12,7 @@ function createProgramWithSource(code: string) {
             module: ts.ModuleKind.CommonJS,
             jsx: ts.JsxEmit.React,
             lib: ["lib.es2020.d.ts"],
+            ...compilerOptions,
         },
         {
             getSourceFile: (fileName) => (fileName === "test.tsx" ? sourceFile : undefined),
@@ -30,8 +31,8 @@ function createProgramWithSource(code: string) {
     return { program, sourceFile };
 }
 
-function transformSource(code: string): string {
-    const { program, sourceFile } = createProgramWithSource(code);
+function transformSource(code: string, compilerOptions?: ts.CompilerOptions): string {
+    const { program, sourceFile } = createProgramWithSource(code, compilerOptions);
     const transformer = decillionTransformer(program, { addSignature: false, debug: false });
     const transformerFactory = transformer as ts.TransformerFactory<ts.SourceFile>;
     const { transformed } = ts.transform(sourceFile, [transformerFactory]);
@@ -41,6 +42,45 @@ function transformSource(code: string): string {
     return result.replace(/\r\n/g, "\n");
 }
 
+function findCalls(sourceFile: ts.SourceFile, name: string): ts.CallExpression[] {
+    const calls: ts.CallExpression[] = [];
+    const visit = (node: ts.Node): void => {
+        if (ts.isCallExpression(node) && ts.isIdentifier(node.expression) && node.expression.text === name) {
+            calls.push(node);
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(sourceFile);
+    return calls;
+}
+
+// Names a function reads from outside of itself: everything it references that it does not declare
+function getFreeNames(fn: ts.FunctionLikeDeclaration): Set<string> {
+    const declared = new Set<string>();
+    const referenced = new Set<string>();
+    const visit = (node: ts.Node): void => {
+        if (ts.isIdentifier(node)) {
+            const parent = node.parent;
+            if (
+                (ts.isParameter(parent) || ts.isVariableDeclaration(parent) || ts.isBindingElement(parent)) &&
+                parent.name === node
+            ) {
+                declared.add(node.text);
+            } else if (
+                !(ts.isPropertyAccessExpression(parent) && parent.name === node) &&
+                !(ts.isPropertyAssignment(parent) && parent.name === node) &&
+                !ts.isTypeReferenceNode(parent) &&
+                !ts.isQualifiedName(parent)
+            ) {
+                referenced.add(node.text);
+            }
+        }
+        ts.forEachChild(node, visit);
+    };
+    visit(fn);
+    return new Set([...referenced].filter((name) => !declared.has(name)));
+}
+
 describe("Decillion transformer integration", () => {
     it("extracts nested static elements and props tables", () => {
         const source = `
@@ -82,6 +122,196 @@ export function DynamicButton({ count, color, onClick }: { count: number; color:
         expect(output).toContain("MouseButton1Click");
     });
 
+    it("emits every dependency read by a patch edit", () => {
+        const source = `
+export function Stat({ name, value }: { name: string; value: number }) {
+    return <textlabel Text={\`\${name}: \${value}\`} LayoutOrder={value} />;
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toContain("useFinePatchBlock");
+        expect(output).toContain('dependencyKeys: ["name", "value"], dependencyIndices: [0, 1], propName: "Text"');
+        expect(output).toContain('dependencyKeys: ["value"], dependencyIndices: [1], propName: "LayoutOrder"');
+    });
+
+    it("resolves edit dependency indices against the order the block receives its dependencies", () => {
+        const source = `
+export function Stat({ name, value, color }: { name: string; value: number; color: Color3 }) {
+    return (
+        <frame BackgroundColor3={color}>
+            <textlabel Text={\`\${name}: \${value}\`} LayoutOrder={value} />
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toMatch(/\[color, name, value\], \(\) => \[\{ elementPath: \[\]/);
+        expect(output).toContain('dependencyKeys: ["color"], dependencyIndices: [0], propName: "BackgroundColor3"');
+        expect(output).toContain('dependencyKeys: ["name", "value"], dependencyIndices: [1, 2], propName: "Text"');
+        expect(output).toContain('dependencyKeys: ["value"], dependencyIndices: [2], propName: "LayoutOrder"');
+        expect(output).toMatch(/"dynamic_frame_[a-z0-9]{9}", \(\) => \["color", "name", "value"\]\)/);
+    });
+
+    it("produces identical output when the same file is transformed twice", () => {
+        const source = `
+export function Panel({ title }: { title: string }) {
+    return (
+        <frame BackgroundTransparency={0}>
+            <textlabel Text="Header" />
+            <textbutton Text={title} />
+            <textlabel Text="Footer" />
+        </frame>
+    );
+}
+`;
+
+        const first = transformSource(source);
+        const second = transformSource(source);
+
+        expect(first).toMatch(/STATIC_PROPS_TEXTLABEL_[a-z0-9]{6}/);
+        expect(first).toMatch(/dynamic_frame_[a-z0-9]{9}/);
+        expect(second).toBe(first);
+    });
+
+    it("emits value getters so intrinsic blocks patch without re-rendering", () => {
+        const source = `
+export function Stat({ name, value }: { name: string; value: number }) {
+    return <textlabel Text={\`\${name}: \${value}\`} LayoutOrder={value} />;
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toContain('propName: "Text", path: [], value: (name, value) => `${name}: ${value}`');
+        expect(output).toContain('propName: "LayoutOrder", path: [], value: (name, value) => value');
+    });
+
+    it("keeps re-rendering blocks with event or change handlers", () => {
+        const source = `
+export function Counter({ count, step, setCount }: { count: number; step: number; setCount: (n: number) => void }) {
+    return <textbutton Text={\`\${count}\`} Event={{ Activated: () => setCount(count + step) }} />;
+}
+
+export function Field({ text, setText }: { text: string; setText: (text: string) => void }) {
+    return <textbox Text={text} Change={{ Text: (rbx: TextBox) => setText(rbx.Text) }} />;
+}
+`;
+
+        const output = transformSource(source);
+
+        // React connects handlers once and calls them with the Instance, so a changed handler needs a re-render
+        expect(output.match(/useFinePatchBlock[<(]/g)).toHaveLength(2);
+        expect(output).not.toContain("value:");
+    });
+
+    it("keeps re-rendering blocks whose children are passed through", () => {
+        const source = `
+export function Card({ title, children }: { title: string; children: unknown }) {
+    return (
+        <frame>
+            <textlabel Text={title} />
+            {children}
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        // A pass-through child can hold any element, which only React can mount
+        expect(output).toContain('type: 2, dependencyKeys: ["children"]');
+        expect(output).not.toContain("value:");
+    });
+
+    it("emits value getters for text children", () => {
+        const source = `
+export function Label({ title, count }: { title: string; count: number }) {
+    return (
+        <frame>
+            {title}
+            {count}
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toContain('type: 2, dependencyKeys: ["title"], dependencyIndices: [0], index: 0, path: [0], value:');
+    });
+
+    it("keeps re-rendering blocks whose child values map to components", () => {
+        const source = `
+export function Rows({ items }: { items: Item[] }) {
+    return <frame>{items.map((item) => <Row item={item} />)}</frame>;
+}
+`;
+
+        const output = transformSource(source);
+
+        // React renders the rows, so the runtime cannot mount the child value as Instances
+        expect(output).toContain("useFinePatchBlock");
+        expect(output).not.toContain("value:");
+    });
+
+    it("keeps re-rendering blocks whose child values hold branches below the top level", () => {
+        const source = `
+export function Rows({ items }: { items: Item[] }) {
+    return (
+        <frame>
+            {items.map((item) => (
+                <frame key={item.id}>{item.open ? <textlabel Text={item.name} /> : undefined}</frame>
+            ))}
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        // Rows with expression children are not list templates, and their branch switch is reconciled by React
+        expect(output).toContain("switchBranch(item.open ? 0 : -1");
+        expect(output).not.toContain("value:");
+    });
+
+    it("keeps re-rendering blocks whose child values call createElement", () => {
+        const source = `
+import React from "@rbxts/react";
+
+export function Labels({ title }: { title: string }) {
+    return <frame>{[React.createElement("TextLabel", { Text: title })]}</frame>;
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toContain("useFinePatchBlock");
+        expect(output).toContain('type: 2, dependencyKeys: ["title"]');
+        expect(output).not.toContain("value:");
+    });
+
+    it("keeps re-rendering blocks that contain components or nested blocks", () => {
+        const source = `
+export function Row({ label, count, color }: { label: string; count: number; color: Color3 }) {
+    return (
+        <frame BackgroundColor3={color}>
+            <Badge Text={label} />
+            <textlabel Text={label} LayoutOrder={count} />
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toContain("useFinePatchBlock");
+        expect(output).not.toMatch(/propName: "BackgroundColor3", path: \[\], value:/);
+    });
+
     it("leaves simple dynamic components un-memoized", () => {
         const source = `
 export const Label = ({ message }: { message: string }) => <textlabel Text={message} />;
@@ -120,6 +350,24 @@ export function Decorated() {
         expect(output).not.toContain("createStaticElement");
     });
 
+    it("passes structural comparison to blocks in functions marked @decillion-structural", () => {
+        const source = `
+// @decillion-structural
+export function Stat({ name, value }: { name: string; value: number }) {
+    return <textlabel Text={\`\${name}: \${value}\`} LayoutOrder={value} />;
+}
+
+export function Plain({ name, value }: { name: string; value: number }) {
+    return <textlabel Text={\`\${name}: \${value}\`} LayoutOrder={value} />;
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output.match(/\{ structural: true \}/g)).toHaveLength(1);
+        expect(output).toMatch(/\["name", "value"\], \{ structural: true \}\)/);
+    });
+
     it("adds runtime import only once for multiple components", () => {
         const source = `
 import React from "@rbxts/react";
@@ -155,7 +403,7 @@ export const Intrinsic = () => (
         expect(output).toContain("createStaticElement(\"TextLabel\"");
     });
 
-    it("bails out advanced optimizations when using ref props", () => {
+    it("keeps ref props on the element and never hoists it as static", () => {
         const source = `
 import { useRef } from "@rbxts/react";
 
@@ -173,6 +421,56 @@ export function WithRef() {
         expect(output).toContain("ref: frameRef");
     });
 
+    it("optimizes blocks with key and ref props", () => {
+        const source = `
+export function Row({ item, selected, onRef }: { item: Item; selected: boolean; onRef: (frame?: Frame) => void }) {
+    return (
+        <frame key={item.id} ref={onRef} BackgroundTransparency={selected ? 0 : 0.5}>
+            <textlabel Text={item.name} />
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+        expect(output).toContain("useFinePatchBlock");
+        expect(output).toMatch(/key: item_id,\s*ref: onRef,/);
+        expect(output).toContain('() => ["item.id", "onRef", "selected", "item.name"], { key: item.id })');
+        expect(output).not.toContain('propName: "key"');
+        expect(output).not.toContain('propName: "ref"');
+        // React attaches the ref when it renders, so the block keeps re-rendering instead of using value getters
+        expect(output).not.toContain("value: (");
+    });
+
+    it("patches an explicit children prop as the element's children", () => {
+        const source = `
+export function Slot({ content, title }: { content: React.Element; title: string }) {
+    return <frame children={content} BackgroundTransparency={title === "" ? 1 : 0} />;
+}
+`;
+
+        const output = transformSource(source);
+        expect(output).toMatch(/React\.createElement\(frame, \{\s*BackgroundTransparency: [^}]*\}, content\)/);
+        expect(output).toContain('type: 2, dependencyKeys: ["content"], dependencyIndices: [1], index: 0, path: [0]');
+        expect(output).not.toContain("children: content");
+    });
+
+    it("still leaves a children prop next to JSX children to React", () => {
+        const source = `
+export function Ambiguous({ content, title }: { content: React.Element; title: string }) {
+    return (
+        <frame children={content} Name={title}>
+            <textlabel Text={title} />
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+        expect(output).not.toMatch(/useFinePatchBlock[<(]/);
+        expect(output).toContain("children: content");
+    });
+
     it("emits event patch instructions for event handlers", () => {
         const source = `
 export function WithEvents({ onClick }: { onClick: () => void }) {
@@ -187,11 +485,15 @@ export function WithEvents({ onClick }: { onClick: () => void }) {
 
     it("tracks child edits for array rendering", () => {
         const source = `
+function Row({ text }: { text: string }) {
+    return <textlabel Text={text} />;
+}
+
 export function List({ items }: { items: string[] }) {
     return (
         <frame>
             {items.map((item) => (
-                <textlabel key={item} Text={item} />
+                <Row key={item} text={item} />
             ))}
         </frame>
     );
@@ -199,7 +501,563 @@ export function List({ items }: { items: string[] }) {
 `;
         const output = transformSource(source);
         expect(output).toContain("type: 2");
-        expect(output).toContain("dependencyKey: \"items\"");
+        expect(output).toContain("dependencyKeys: [\"items\", \"Row\"]");
+    });
+
+    it("compiles .map rows into keyed list blocks", () => {
+        const source = `
+export function List({ items, selected }: { items: { id: number; name: string }[]; selected: number }) {
+    return (
+        <scrollingframe>
+            <uilistlayout />
+            {items.map((item) => (
+                <frame key={item.id} BackgroundTransparency={item.id === selected ? 0 : 0.5}>
+                    <textlabel Text={item.name} Size={new UDim2(1, 0, 1, 0)} />
+                </frame>
+            ))}
+        </scrollingframe>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toContain("mapList(items.map((item) => [item.id, item.id === selected ? 0 : 0.5, item.name])");
+        expect(output).toContain('createStaticElement("Frame", undefined, createStaticElement("TextLabel", {');
+        expect(output).toContain('propName: "BackgroundTransparency", path: [], hole: 1');
+        expect(output).toContain('propName: "Text", path: [0], hole: 2');
+        expect(output).toContain("holes: 2");
+        expect(output).not.toContain("type: 2");
+        // Rows are numbered after the layout, the child before the list
+        expect(output).toMatch(/"list_frame_[0-9a-z]+", 1\)/);
+    });
+
+    it("leaves .map rows with static event handlers to React", () => {
+        const source = `
+const log = () => print("picked");
+
+export function List({ items }: { items: { id: number; name: string }[] }) {
+    return <frame>{items.map((item) => <textbutton key={item.id} Text={item.name} Event={{ Activated: log }} />)}</frame>;
+}
+`;
+
+        const output = transformSource(source);
+
+        // A static skeleton never connects handlers, so React has to render the rows
+        expect(output).not.toContain("mapList(");
+        expect(output).toContain("Event: { Activated: log }");
+    });
+
+    it("leaves .map rows with dynamic event handlers to React", () => {
+        const source = `
+export function List({ items }: { items: { id: number; name: string }[] }) {
+    return (
+        <frame>
+            {items.map((item) => (
+                <textbutton key={item.id} Text={item.name} Event={{ Activated: (rbx: TextButton) => print(item.id) }} />
+            ))}
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        // React calls handlers with the Instance first, which a handler written from a hole would not get
+        expect(output).not.toContain("mapList(");
+        expect(output).toContain("Event: { Activated: (rbx: TextButton) => print(item.id) }");
+    });
+
+    it("leaves .map rows with change handlers to React", () => {
+        const source = `
+export function List({ items }: { items: { id: number; name: string }[] }) {
+    return (
+        <frame>
+            {items.map((item) => (
+                <textbox key={item.id} Text={item.name} Change={{ Text: (rbx: TextBox) => print(rbx.Text) }} />
+            ))}
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        // Change is not a property of the Instance, so it cannot be written from a hole
+        expect(output).not.toContain("mapList(");
+        expect(output).not.toContain('propName: "Change"');
+    });
+
+    it("compiles conditional JSX children into branch switches", () => {
+        const source = `
+export function Panel({ open, title, count }: { open: boolean; title: string; count: number }) {
+    return (
+        <frame BackgroundTransparency={count}>
+            {open ? <textlabel Text={title} /> : <textlabel Text="Closed" />}
+            {count > 0 && <textlabel Text={\`\${count}\`} />}
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toMatch(/switchBranch\(open \? 0 : 1, \[\(\) => React\.createElement\(/);
+        expect(output).toMatch(/\(\) => STATIC_ELEMENT_TEXTLABEL_\w+\]\)/);
+        expect(output).toContain("switchBranch(count > 0 ? 0 : -1, [() =>");
+        // Branches are reconciled by React, so the block re-renders instead of patching children
+        expect(output).not.toContain("type: 2");
+        expect(output).not.toContain("value:");
+        expect(output).toMatch(/\[count, open, title\]/);
+    });
+
+    it("flattens ternary chains and keeps branches when marked @decillion-keep", () => {
+        const source = `
+export function Tabs({ tab, label }: { tab: string; label: string }) {
+    return (
+        <frame>
+            {/* @decillion-keep */ tab === "a" ? <textlabel Text={label} /> : tab === "b" ? <Settings /> : null}
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toContain('switchBranch(tab === "a" ? 0 : tab === "b" ? 1 : -1, [');
+        expect(output).toContain("], { keep: true })");
+    });
+
+    it("only emits block hooks at the top level of components and hooks", () => {
+        const source = `
+export function Board({ items, size, label }: { items: string[]; size: number; label: string }) {
+    const rows = items.map((item) => <textlabel Text={item} TextSize={size} />);
+    const onClick = () => print(<textlabel Text={label} TextSize={size} />);
+    return <frame>{rows}</frame>;
+}
+
+export function useBadge(size: number, label: string) {
+    return <textlabel Text={label} TextSize={size} />;
+}
+
+export function Guarded({ ready, size, label }: { ready: boolean; size: number; label: string }) {
+    if (!ready) {
+        return undefined;
+    }
+    return <textlabel Text={label} TextSize={size} />;
+}
+
+function renderBadge(size: number, label: string) {
+    return <textlabel Text={label} TextSize={size} />;
+}
+
+class Screen {
+    render(size: number, label: string) {
+        return <textlabel Text={label} TextSize={size} />;
+    }
+}
+`;
+
+        const output = transformSource(source);
+
+        // Only the Board frame and the useBadge label sit at the top level of a component or hook
+        expect(output.match(/useFinePatchBlock[<(]/g)).toHaveLength(2);
+        expect(output).toMatch(/export function useBadge\([^)]*\) \{\s*return useFinePatchBlock</);
+        expect(output).toContain("items.map((item) => React.createElement(");
+        expect(output).toContain("print(React.createElement(");
+    });
+
+    it("optimizes JSX nested in prop values, render props and helper calls", () => {
+        const source = `
+export function Profile({ name, avatar, size }: { name: string; avatar: string; size: number }) {
+    return (
+        <frame Size={new UDim2(0, size, 0, size)}>
+            <Card
+                badge={<imagelabel Image="rbxassetid://1" />}
+                icon={<imagelabel Image={avatar} ImageTransparency={size} />}
+                renderTitle={() => <textlabel Text={name} TextSize={size} />}
+            />
+            {withTooltip(<textlabel Text={name} />, <textlabel Text="Hint" />)}
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        // Static nested JSX is hoisted, dynamic nested JSX is built hook-free where the outer block renders it
+        expect(output).toMatch(/badge: STATIC_ELEMENT_IMAGELABEL_\w+/);
+        expect(output).toMatch(/withTooltip\(React\.createElement\(textlabel, \{\s*Text: name\s*\}\), STATIC_ELEMENT_TEXTLABEL_\w+\)/);
+        expect(output).toMatch(/icon: React\.createElement\(imagelabel, \{/);
+        expect(output).toMatch(/renderTitle: \(\) => React\.createElement\(textlabel, \{/);
+        expect(output).not.toMatch(/<(textlabel|imagelabel)/);
+        expect(output.match(/useFinePatchBlock[<(]/g)).toHaveLength(1);
+        expect(output).toContain("[size, Card, avatar, name, withTooltip]");
+    });
+
+    it("keeps children of a block hook-free but lets conditional branches use blocks", () => {
+        const source = `
+export function Card({ open, size, label }: { open: boolean; size: number; label: string }) {
+    return (
+        <frame Size={new UDim2(0, size, 0, size)}>
+            <textlabel Text={label} TextSize={size} />
+            {open && <textbutton Text={label} TextSize={size} />}
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        // The frame block, plus the branch, which renders inside its own host component
+        expect(output.match(/useFinePatchBlock[<(]/g)).toHaveLength(2);
+        expect(output).toMatch(/switchBranch\(open \? 0 : -1, \[\(\) => useFinePatchBlock</);
+        expect(output).toContain("React.createElement(textlabel, {");
+    });
+
+    it("tracks member paths as separate dependencies", () => {
+        const source = `
+interface Props { name: string; player: { health: number; getLevel(): number }; tags?: { label: string } }
+
+export function Hud(props: Props) {
+    return (
+        <frame Size={new UDim2(0, props.player.health, 0, 10)}>
+            <textlabel Text={props.name} TextSize={props.player.getLevel()} />
+            <textlabel Text={props.tags?.label ?? ""} />
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toContain("[props.player.health, props.name, props.player, props.tags]");
+        expect(output).toContain('() => ["props.player.health", "props.name", "props.player", "props.tags"]');
+        // Leaf values arrive as parameters; method calls and optional chains read the object they are made on
+        expect(output).toContain("(props_player_health: number, props_name: string, props_player: {");
+        expect(output).toContain("Size: new UDim2(0, props_player_health, 0, 10)");
+        expect(output).toContain("TextSize: props_player.getLevel()");
+        expect(output).toContain('Text: props_tags?.label ?? ""');
+        expect(output).toContain('dependencyKeys: ["props.name"], dependencyIndices: [1], propName: "Text"');
+    });
+
+    it("names path parameters so they neither collide nor shadow names in scope", () => {
+        const source = `
+const props_label = "Total";
+
+export function Summary(props: { label: string; a: { b_c: number }; a_b: { c: number } }) {
+    return (
+        <frame>
+            <textlabel Text={\`\${props_label}: \${props.label}\`} />
+            <textlabel Text={\`\${props.a.b_c} / \${props.a_b.c}\`} />
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toContain("(props_label_1: string, props_a_b_c: number, props_a_b_c_1: number) =>");
+        expect(output).toContain("Text: `${props_label}: ${props_label_1}`");
+        expect(output).toContain("Text: `${props_a_b_c} / ${props_a_b_c_1}`");
+        expect(output).toContain("[props.label, props.a.b_c, props.a_b.c]");
+    });
+
+    it("keeps guarded member reads behind their guard", () => {
+        const source = `
+interface User { name: string; age: number }
+
+export function Profile({ user, fallback }: { user?: User; fallback: { label: string } }) {
+    return (
+        <frame>
+            <textlabel Text={user !== undefined ? user.name : "guest"} />
+            <textlabel Text={fallback && fallback.label} />
+        </frame>
+    );
+}
+
+export class Card extends React.Component<{ user?: User }> {
+    render() {
+        const user = this.props.user;
+        if (!user) return undefined;
+        return (
+            <frame>
+                <textlabel Text={user.name} LayoutOrder={user.age} />
+            </frame>
+        );
+    }
+}
+`;
+
+        const output = transformSource(source);
+
+        // Reading \`user.name\` up front would index nil whenever \`user\` is undefined
+        expect(output).toContain("[user, fallback], () =>");
+        expect(output).toContain('Text: user !== undefined ? user.name : "guest"');
+        expect(output).toContain("Text: fallback && fallback.label");
+        // An early return narrows the root just like a conditional
+        expect(output).toMatch(/createFinePatchBlock<[^>]*>\(\(user: [^)]*\) => [^;]*\[user\], \(\) =>/);
+        expect(output).not.toContain("user.age]");
+    });
+
+    it("reads member paths through possibly nil values from their root", () => {
+        const source = `
+interface User { name: string; age: number }
+
+export class Card extends React.Component<{ user?: User }> {
+    render() {
+        const user: User | undefined = this.props.user;
+        const signedIn = user !== undefined;
+        if (!signedIn) return undefined;
+        return (
+            <frame>
+                <textlabel Text={user.name} LayoutOrder={user.age} />
+            </frame>
+        );
+    }
+}
+`;
+
+        const output = transformSource(source, { strict: true });
+
+        // The guard does not name \`user\`, but its declared type still allows undefined
+        expect(output).toContain("[user], () =>");
+        expect(output).toContain("Text: user.name");
+    });
+
+    it("tracks this-rooted members and hosts the blocks of class members", () => {
+        const source = `
+interface State { count: number; label: string }
+
+export class Counter extends React.Component<{ title: string }, State> {
+    state = { count: 0, label: "" };
+
+    render() {
+        return (
+            <frame Size={new UDim2(0, this.state.count, 0, 10)}>
+                <textlabel Text={this.props.title} />
+            </frame>
+        );
+    }
+
+    renderButton = () => (
+        <textbutton Text={this.state.label} Event={{ Activated: function (this: unknown) { print(this); } }} />
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        // Class members cannot call hooks, so each block renders through its own host component
+        expect(output).not.toContain("useFinePatchBlock<");
+        expect(output.match(/createFinePatchBlock</g)).toHaveLength(2);
+        expect(output).toContain("[this.state.count, this.props.title]");
+        expect(output).toContain("Size: new UDim2(0, this_state_count, 0, 10)");
+        expect(output).toContain('() => ["this.state.count", "this.props.title"]');
+        // The callback binds its own \`this\`, which the block must not read
+        expect(output).toContain("[this.state.label, print]");
+        expect(output).toContain("function (this: unknown) { print(this); }");
+    });
+
+    it("hoists module constants, enums and namespace constants as static props", () => {
+        const source = `
+enum Align { Left, Right }
+
+namespace Palette {
+    export const ACCENT = Color3.fromRGB(255, 0, 0);
+}
+
+import Accent = Palette.ACCENT;
+
+let counter = 0;
+const Theme = { size: 14 };
+
+export function Card(props: { title: string }) {
+    return (
+        <frame BackgroundColor3={Accent} Size={new UDim2(0, PADDING, 0, PADDING)}>
+            <textlabel Text={props.title} TextColor3={Palette.ACCENT} LayoutOrder={Align.Right} TextSize={Theme.size} />
+            <textlabel Text="Count" LayoutOrder={counter} />
+        </frame>
+    );
+}
+
+const PADDING = 8;
+
+export function Footer() {
+    return <textlabel Text="Footer" TextColor3={Accent} TextSize={PADDING} LayoutOrder={Align.Left} />;
+}
+`;
+
+        const output = transformSource(source);
+
+        // Constant bindings are neither dependencies nor edits; \`let\` bindings and members of constant objects are
+        expect(output).toContain("[props.title, Theme.size, counter]");
+        expect(output).toContain('() => ["props.title", "Theme.size", "counter"]');
+        expect(output).toMatch(/const STATIC_PROPS_TEXTLABEL_\w+ = \{\s*Text: "Footer",\s*TextColor3: Accent,\s*TextSize: PADDING,\s*LayoutOrder: Align\.Left\s*\}/);
+        expect(output).toMatch(/export function Footer\(\) \{\s*return STATIC_ELEMENT_TEXTLABEL_\w+;/);
+        // The hoisted declarations come after the constants they read
+        expect(output.indexOf("const PADDING = 8")).toBeLessThan(output.indexOf("const STATIC_PROPS_TEXTLABEL_"));
+    });
+
+    it("folds values fixed by their types into static props", () => {
+        const source = `
+const enum Size { Small = 10, Large = 20 }
+
+const ICON = <imagelabel Image="rbxassetid://1" />;
+
+export function Badge(props: { variant: "primary"; tone: Size.Large; offset: -2; name: string }) {
+    const palette = { text: "white", sizes: [1, 2] } as const;
+    const loose = { text: "white" };
+    return (
+        <frame>
+            <textlabel Text={props.variant} TextSize={props.tone} LayoutOrder={props.offset} Name={palette.text} />
+            <textlabel Text={props.name} Name={loose.text} />
+            <frame>{ICON}</frame>
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        // Literal, const enum and \`as const\` types are hoisted by value, since props and locals are out of scope there
+        expect(output).toMatch(
+            /const STATIC_PROPS_TEXTLABEL_\w+ = \{\s*Text: "primary",\s*TextSize: 20,\s*LayoutOrder: -2,\s*Name: "white"\s*\}/,
+        );
+        // Types that allow other values stay dependencies, as does a constant built from hoisted JSX
+        expect(output).toContain("[props.name, loose.text, ICON]");
+        expect(output).toContain("React.createElement(frame, undefined, ICON)");
+    });
+
+    it("classifies and folds constant expressions the same way for blocks and props", () => {
+        const source = `
+export function Row(props: { angle: number }) {
+    return (
+        <frame Size={new UDim2(0.5, -5, 0, 40)} Rotation={-props.angle} Name={"a" + "b"}>
+            <textlabel Text={\`x\${1}\`} TextSize={math.floor(10)} LayoutOrder={(1 / 3) as number} />
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        // Constant expressions are hoisted as the literals they evaluate to
+        expect(output).toMatch(
+            /const STATIC_PROPS_TEXTLABEL_\w+ = \{\s*Text: "x1",\s*TextSize: 10,\s*LayoutOrder: 0\.3333333333333333\s*\}/,
+        );
+        // Negated props are as dynamic as the value they negate, and stay next to the folded constants
+        expect(output).toMatch(/Size: new UDim2\(0\.5, -5, 0, 40\),\s*Rotation: -props\.angle,\s*Name: "ab"/);
+    });
+
+    it("treats locals computed only from constants as static", () => {
+        const source = `
+export function Card(props: { title: string }) {
+    const padding: number = 8;
+    const size = new UDim2(1, -padding * 2, 0, 40);
+    const style = { textSize: 14 };
+    const label = props.title + "!";
+    return (
+        <frame Size={size}>
+            <textlabel Size={size} Text={label} TextSize={style.textSize} />
+        </frame>
+    );
+}
+
+export function Spacer() {
+    const height = 4 * 2;
+    const size = new UDim2(1, 0, 0, height);
+    return <frame Size={size} BackgroundTransparency={1} />;
+}
+`;
+
+        const output = transformSource(source);
+
+        // Constant locals are inlined and folded, and are not dependencies
+        expect(output).toContain("[label, style.textSize]");
+        expect(output).toMatch(/Size: new UDim2\(1, -16, 0, 40\),\s*Text: label/);
+        // An element using only such locals is hoisted whole
+        expect(output).toMatch(
+            /const STATIC_PROPS_FRAME_\w+ = \{\s*Size: new UDim2\(1, 0, 0, 8\),\s*BackgroundTransparency: 1\s*\}/,
+        );
+        expect(output).toMatch(/export function Spacer\(\) \{[^}]*return STATIC_ELEMENT_FRAME_\w+;/);
+    });
+
+    it("classifies React.createElement calls like the JSX they stand for", () => {
+        const source = `
+import React, { createElement } from "@rbxts/react";
+
+export function Legacy({ title, count }: { title: string; count: number }) {
+    return React.createElement(
+        "Frame",
+        { Size: new UDim2(0, count, 0, 20), BackgroundTransparency: 1 },
+        React.createElement("TextLabel", { Text: "Header" }),
+        createElement("TextLabel", { Text: title, TextSize: count }),
+    );
+}
+
+export function Divider() {
+    return React.createElement("Frame", { BackgroundTransparency: 1 }, createElement("UIListLayout"));
+}
+
+export function Wrapper({ value, label }: { value: number; label: string }) {
+    return React.createElement(Counter, { value, label });
+}
+`;
+
+        const output = transformSource(source);
+
+        // Static calls are hoisted, under the Roblox class name they were written with
+        expect(output).toMatch(/const STATIC_ELEMENT_FRAME_\w+ = createStaticElement\("Frame", STATIC_PROPS_FRAME_\w+, STATIC_ELEMENT_UILISTLAYOUT_\w+\)/);
+        expect(output).toMatch(/export function Divider\(\) \{\s*return STATIC_ELEMENT_FRAME_\w+;/);
+
+        // Dynamic calls become patch blocks with edits at the same element paths as JSX
+        expect(output).toMatch(/\(count: number, title: string\) => React\.createElement\("Frame", \{/);
+        expect(output).toMatch(/"Frame", \{[^}]*\}, STATIC_ELEMENT_TEXTLABEL_\w+, React\.createElement\("TextLabel"/);
+        expect(output).toContain('elementPath: [1], edits: [{ type: 1, dependencyKeys: ["title"]');
+        expect(output).toContain("[Counter, value, label]");
+        // The React namespace a call is made through is never a dependency
+        expect(output).not.toMatch(/[(,] ?React[,:)]/);
+    });
+
+    it("leaves createElement calls JSX cannot express untouched", () => {
+        const source = `
+import React from "@rbxts/react";
+
+export function Dynamic({ kind, props, children }: { kind: string; props: object; children: unknown[] }) {
+    return React.createElement(
+        "Frame",
+        { [kind]: 1, Size: new UDim2(0, 1, 0, 1) },
+        React.createElement(kind, props),
+        ...children,
+    );
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toContain("{ [kind]: 1, Size: new UDim2(0, 1, 0, 1) }");
+        expect(output).toContain("React.createElement(kind, props), ...children)");
+        expect(output).not.toMatch(/useFinePatchBlock[<(]/);
+    });
+
+    it("leaves calls to createElement functions that are not React's untouched", () => {
+        const source = `
+function createElement(tag: string, opts: { x: number }) {
+    return tag + opts.x;
+}
+
+const Vendor = { createElement };
+
+export function Label() {
+    return <textlabel Text={createElement("Frame", { x: 1 }) + Vendor.createElement("Frame", { x: 2 })} />;
+}
+`;
+
+        const output = transformSource(source);
+
+        expect(output).toContain('createElement("Frame", { x: 1 }) + Vendor.createElement("Frame", { x: 2 })');
+        expect(output).not.toMatch(/STATIC_ELEMENT_FRAME/);
     });
 
     it("ignores files without JSX content", () => {
@@ -275,6 +1133,70 @@ export function FragmentExample({ items }: { items: string[] }) {
         expect(output).toContain("React.Fragment");
     });
 
+    it("keeps fine-grained edits next to a spread prop bag", () => {
+        const source = `
+export function Panel({ layoutProps, size, title }: { layoutProps: object; size: UDim2; title: string }) {
+    return (
+        <frame BackgroundTransparency={0.5} {...layoutProps} Size={size}>
+            <textlabel Text={title} />
+        </frame>
+    );
+}
+`;
+        const output = transformSource(source);
+
+        expect(output).toContain("useFinePatchBlock");
+        expect(output).toMatch(/BackgroundTransparency: 0\.5,\s*\.\.\.layoutProps,\s*Size: size/);
+        expect(output).toContain(
+            'edits: [{ type: 16, dependencyKeys: ["layoutProps"], dependencyIndices: [0], propName: "...", path: [], value: (layoutProps, size, title) => layoutProps }, { type: 1, dependencyKeys: ["size"]',
+        );
+        expect(output).toContain('propName: "Text", path: [0] }');
+    });
+
+    it("optimizes each child of a fragment root", () => {
+        const source = `
+export function Labels({ title }: { title: string }) {
+    return (
+        <>
+            <textlabel Text="Static" />
+            <frame BackgroundTransparency={0.5}>
+                <textlabel Text={title} />
+            </frame>
+        </>
+    );
+}
+`;
+        const output = transformSource(source);
+
+        expect(output).toContain("React.createElement(React.Fragment, undefined, STATIC_ELEMENT_TEXTLABEL_");
+        expect(output).toContain("useFinePatchBlock");
+        expect(output).toContain('elementPath: [0], edits: [{ type: 1, dependencyKeys: ["title"]');
+        expect(output).not.toContain("<>");
+    });
+
+    it("computes element paths through nested fragments against the Instance hierarchy", () => {
+        const source = `
+export function Panel({ title, count }: { title: string; count: number }) {
+    return (
+        <frame>
+            <uilistlayout />
+            <>
+                <textlabel Text="Header" />
+                <textlabel Text={title} />
+            </>
+            <textlabel Text={\`\${count}\`} />
+        </frame>
+    );
+}
+`;
+        const output = transformSource(source);
+
+        expect(output).toContain('elementPath: [2], edits: [{ type: 1, dependencyKeys: ["title"]');
+        expect(output).toContain('elementPath: [3], edits: [{ type: 1, dependencyKeys: ["count"]');
+        expect(output).toContain('() => ["title", "count"]');
+        expect(output).not.toContain("React.Fragment");
+    });
+
     it("does not treat Provider with dynamic props as static", () => {
         const source = `
 import React, { createContext } from "@rbxts/react";
@@ -303,4 +1225,68 @@ export function ThemeProvider({ theme, children }: { theme: string; children: Re
         const hasCreateElement = output.includes("React.createElement(ThemeContext.Provider");
         expect(hasFinePatch || hasCreateElement).toBe(true);
     });
+
+    // The runtime applies patches in a layout effect, with the dependencies of the render React committed, and drops
+    // the work of renders it throws away. That is only sound if everything a block shows is computed from its
+    // dependencies. The runtime itself runs only in Roblox; demo/src/strict-mode.story.tsx checks it in Studio.
+    it("emits blocks whose output depends only on the dependencies a render commits", () => {
+        const source = `
+import React, { useState } from "@rbxts/react";
+
+const PADDING = 4;
+
+export function Counter({ label, step }: { label: string; step: number }) {
+    const [count] = useState(0);
+    const title = \`\${label}: \${count * 2}\`;
+    return (
+        <frame Size={new UDim2(0, PADDING, 0, 20)}>
+            <textlabel Text={title} />
+            <textlabel Text={\`\${count + step}\`} />
+        </frame>
+    );
+}
+`;
+
+        const output = transformSource(source);
+        const outputFile = ts.createSourceFile("out.tsx", output, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+        const componentLocals = ["label", "step", "count", "title"];
+
+        const [call] = findCalls(outputFile, "useFinePatchBlock");
+        expect(call).toBeDefined();
+        // The hook runs once per render of the component, never conditionally or from a callback
+        let statement = call.parent;
+        while (ts.isParenthesizedExpression(statement)) statement = statement.parent;
+        expect(ts.isReturnStatement(statement) && statement.parent.parent).toMatchObject({ name: { text: "Counter" } });
+
+        const [renderFn, deps, instructions, , dependencyKeys] = call.arguments;
+        if (
+            !ts.isArrowFunction(renderFn) ||
+            !ts.isArrayLiteralExpression(deps) ||
+            !ts.isArrowFunction(dependencyKeys)
+        ) {
+            throw new Error("unexpected useFinePatchBlock arguments");
+        }
+
+        // Each render passes a fresh array of its dependencies, in the order the render function takes them
+        const parameterNames = renderFn.parameters.map((parameter) => parameter.name.getText());
+        expect(deps.elements.map((element) => element.getText())).toEqual(parameterNames);
+        expect(dependencyKeys.body.getText()).toBe(JSON.stringify(parameterNames).replace(/,/g, ", "));
+
+        // Neither the render function nor any edit value reads component state around the dependencies
+        const valueGetters: ts.ArrowFunction[] = [];
+        const collectValueGetters = (node: ts.Node): void => {
+            if (ts.isPropertyAssignment(node) && node.name.getText() === "value") {
+                valueGetters.push(node.initializer as ts.ArrowFunction);
+            }
+            ts.forEachChild(node, collectValueGetters);
+        };
+        collectValueGetters(instructions);
+        expect(valueGetters).toHaveLength(2);
+
+        for (const fn of [renderFn, ...valueGetters]) {
+            const freeNames = getFreeNames(fn);
+            expect(componentLocals.filter((name) => freeNames.has(name))).toEqual([]);
+            expect(fn.parameters.map((parameter) => parameter.name.getText())).toEqual(parameterNames);
+        }
+    });
 });